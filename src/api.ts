@@ -0,0 +1,181 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { INITIAL_PORT, RenodePluginContext } from './context';
+import { RenodeState } from './session';
+import {
+  UartWaitOptions,
+  UartWaitResult,
+  waitForUartOutput,
+} from './program/uartWait';
+
+export type { UartWaitOptions, UartWaitResult };
+
+// Bump when making incompatible changes to `RenodeExtensionApi`
+export const API_VERSION = 1;
+
+export interface RenodeUartOpenedEvent {
+  // Name of the Renode session the UART belongs to
+  session: string;
+  machine: string;
+  uart: string;
+  port: number;
+}
+
+export interface RenodeDisconnectEvent {
+  session: string;
+}
+
+// One of the `RenodeState` values, kept as a string to not tie API users to the enum
+export type RenodeSessionState = `${RenodeState}`;
+
+export interface RenodeStateChangeEvent {
+  session: string;
+  previous: RenodeSessionState;
+  state: RenodeSessionState;
+}
+
+// API returned from the extension's `activate`, available to other extensions through
+// `vscode.extensions.getExtension('antmicro.renode-extension').exports`.
+// Unless stated otherwise, all operations apply to the active Renode session.
+export interface RenodeExtensionApi {
+  readonly version: number;
+
+  // Names of all sessions, including ones that are not connected
+  readonly sessions: string[];
+  readonly activeSession: string;
+  readonly connected: boolean;
+  // State of the active session
+  readonly state: RenodeSessionState;
+
+  // Makes the given session active, if provided, and connects to it
+  connect(session?: string): Promise<void>;
+  disconnect(session?: string): void;
+
+  // Resolves to the output of each command
+  execMonitor(commands: string[]): Promise<string[]>;
+  getMachines(): Promise<string[]>;
+  getUarts(machine: string): Promise<string[]>;
+
+  openUartTerminal(machine: string, uart: string): Promise<vscode.Terminal>;
+  openMonitorTerminal(): vscode.Terminal;
+  openLogTerminal(): vscode.Terminal;
+  // Resolves once the UART output matches or a timeout passes, rejects if the UART cannot be opened
+  waitForUartOutput(
+    options: UartWaitOptions,
+    token?: vscode.CancellationToken,
+  ): Promise<UartWaitResult>;
+
+  // Paths are relative to the session's workspace on the Renode server
+  sendFile(path: string, content: Uint8Array): Promise<any>;
+  // Uploads a file from the editor's filesystem, `path` is a URI
+  sendFileFromPath(path: string): Promise<any>;
+  downloadFile(path: string): Promise<Uint8Array>;
+  listFiles(path: string): Promise<any[]>;
+
+  // Fired when Renode opens a UART on its own, in any session
+  readonly onUartOpened: vscode.Event<RenodeUartOpenedEvent>;
+  // Fired right before any session gets disconnected
+  readonly onPreDisconnect: vscode.Event<RenodeDisconnectEvent>;
+  // Fired when any session connects, disconnects or its simulation changes state
+  readonly onDidChangeState: vscode.Event<RenodeStateChangeEvent>;
+}
+
+export function createExtensionApi(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+): RenodeExtensionApi {
+  const uartOpenedEmitter = new vscode.EventEmitter<RenodeUartOpenedEvent>();
+  const preDisconnectEmitter = new vscode.EventEmitter<RenodeDisconnectEvent>();
+  const stateEmitter = new vscode.EventEmitter<RenodeStateChangeEvent>();
+  subscriptions.push(uartOpenedEmitter, preDisconnectEmitter, stateEmitter);
+
+  // The API exposes plain objects so that internal types can change freely
+  subscriptions.push(
+    pluginCtx.onUartOpened(args =>
+      uartOpenedEmitter.fire({
+        session: args.session.name,
+        machine: args.machineName,
+        uart: args.name,
+        port: args.port,
+      }),
+    ),
+  );
+  subscriptions.push(
+    pluginCtx.onPreDisconnect(session =>
+      preDisconnectEmitter.fire({ session: session.name }),
+    ),
+  );
+  subscriptions.push(
+    pluginCtx.onDidChangeState(event =>
+      stateEmitter.fire({
+        session: event.session.name,
+        previous: event.previous,
+        state: event.state,
+      }),
+    ),
+  );
+
+  function getSession(name?: string) {
+    const session = pluginCtx.getSession(name);
+    if (session === undefined) {
+      throw new Error(`Renode session '${name}' does not exist`);
+    }
+    return session;
+  }
+
+  return {
+    version: API_VERSION,
+
+    get sessions() {
+      return pluginCtx.listSessions().map(session => session.name);
+    },
+    get activeSession() {
+      return pluginCtx.activeSession.name;
+    },
+    get connected() {
+      return pluginCtx.socketReady;
+    },
+    get state() {
+      return pluginCtx.state;
+    },
+
+    async connect(name?: string) {
+      const session = getSession(name);
+      pluginCtx.setActiveSession(session.name);
+      await session.connect();
+      if (!session.socketReady) {
+        throw new Error(
+          `Could not connect to Renode session '${session.name}'`,
+        );
+      }
+    },
+    disconnect(name?: string) {
+      getSession(name).disconnect();
+    },
+
+    execMonitor: commands => pluginCtx.execMonitor(commands),
+    getMachines: () => pluginCtx.getMachines(),
+    getUarts: machine => pluginCtx.getUarts(machine),
+
+    openUartTerminal: (machine, uart) =>
+      pluginCtx.createUARTTerminal(machine, uart),
+    openMonitorTerminal: () =>
+      pluginCtx.createTerminal('Renode Monitor', INITIAL_PORT - 1),
+    openLogTerminal: () =>
+      pluginCtx.createTerminal('Renode', INITIAL_PORT, true),
+    waitForUartOutput: (options, token) =>
+      waitForUartOutput(pluginCtx.activeSession, options, token),
+
+    sendFile: (path, content) => pluginCtx.sendFileFromContent(path, content),
+    sendFileFromPath: path => pluginCtx.sendFileFromPath(path),
+    downloadFile: path => pluginCtx.downloadFile(path),
+    listFiles: path => pluginCtx.listFiles(path),
+
+    onUartOpened: uartOpenedEmitter.event,
+    onPreDisconnect: preDisconnectEmitter.event,
+    onDidChangeState: stateEmitter.event,
+  };
+}
@@ -4,64 +4,152 @@
 
 import * as vscode from 'vscode';
 import WebSocket from 'isomorphic-ws';
+import { withToken } from './profiles';
+
+// How the bytes received by a terminal are shown
+export type TerminalDisplayMode = 'utf-8' | 'latin1' | 'hex' | 'hex-ascii';
+
+// Bytes in a row of a hex dump
+const HEX_ROW = 16;
+// Incomplete rows of a hex dump are shown once nothing was received for this long
+const HEX_ROW_IDLE = 100;
+
+// Pseudoterminals of the terminals created by the extension, e.g. to record their output
+const pseudoterminals = new WeakMap<
+  vscode.Terminal,
+  RenodeWebSocketPseudoTerminal
+>();
 
 export function createRenodeWebSocketTerminal(
   name: string,
   wsUri: string,
   readonly?: boolean,
+  keepOpen?: boolean,
+  token?: string,
 ): vscode.Terminal {
-  return vscode.window.createTerminal({
+  const pty = new RenodeWebSocketPseudoTerminal(
     name,
-    pty: new RenodeWebSocketPseudoTerminal(name, wsUri, readonly),
-  });
+    wsUri,
+    readonly,
+    keepOpen,
+    token,
+  );
+  const terminal = vscode.window.createTerminal({ name, pty });
+  pseudoterminals.set(terminal, pty);
+  return terminal;
+}
+
+export function getRenodePseudoterminal(
+  terminal: vscode.Terminal,
+): RenodeWebSocketPseudoTerminal | undefined {
+  return pseudoterminals.get(terminal);
+}
+
+// Line ending sent for Enter and for line breaks in text sent to a terminal
+function lineEnding(): string {
+  const ending = vscode.workspace
+    .getConfiguration('renode')
+    .get<string>('terminalLineEnding');
+  return ending === 'lf' ? '\n' : ending === 'crlf' ? '\r\n' : '\r';
+}
+
+// Whether terminals should stay open after losing their connection, to be reconnected later
+export function terminalsKeptOpen(): boolean {
+  return (
+    vscode.workspace
+      .getConfiguration('renode')
+      .get<boolean>('keepTerminalsOpen') ?? false
+  );
 }
 
-class RenodeWebSocketPseudoTerminal implements vscode.Pseudoterminal {
+export class RenodeWebSocketPseudoTerminal implements vscode.Pseudoterminal {
   onDidChangeName?: vscode.Event<string> | undefined;
   onDidClose?: vscode.Event<number | void> | undefined;
   onDidOverrideDimensions?:
     | vscode.Event<vscode.TerminalDimensions | undefined>
     | undefined;
   onDidWrite: vscode.Event<string>;
+  // Output received from Renode, without the messages of the terminal itself
+  onDidReceiveData: vscode.Event<string>;
   readonly name: string;
   address: string;
 
-  constructor(name: string, address: string, readonly?: boolean) {
+  constructor(
+    name: string,
+    address: string,
+    readonly?: boolean,
+    // Instead of closing when the connection is lost, wait for `reconnect`
+    keepOpen?: boolean,
+    token?: string,
+  ) {
     this.isActive = false;
     this.readonly = readonly ?? false;
+    this.keepOpen = keepOpen ?? false;
     this.name = name;
     this.address = address;
+    this.token = token;
 
     this.changeNameEmitter = new vscode.EventEmitter<string>();
     this.closeEmitter = new vscode.EventEmitter<number | void>();
     this.overrideDimensionsEmitter =
       new vscode.EventEmitter<vscode.TerminalDimensions>();
     this.writeEmitter = new vscode.EventEmitter<string>();
+    this.dataEmitter = new vscode.EventEmitter<string>();
 
     this.onDidChangeName = this.changeNameEmitter.event;
     this.onDidClose = this.closeEmitter.event;
     this.onDidOverrideDimensions = this.overrideDimensionsEmitter.event;
     this.onDidWrite = this.writeEmitter.event;
+    this.onDidReceiveData = this.dataEmitter.event;
+  }
+
+  get connected(): boolean {
+    return this.isActive;
   }
 
   async connect(): Promise<void> {
-    this.ws = new WebSocket(this.address);
+    const ws = new WebSocket(withToken(this.address, this.token));
+    this.ws = ws;
     this.ws.binaryType = 'arraybuffer';
 
     this.ws.addEventListener('close', () => {
+      if (this.ws !== ws) {
+        // Closed on purpose, or replaced by a new connection
+        return;
+      }
+      const wasActive = this.isActive;
       this.isActive = false;
+      if (this.keepOpen) {
+        if (wasActive) {
+          this.writeEmitter.fire(
+            '\r\n\x1b[33m--- Disconnected, waiting for the simulation ---\x1b[0m\r\n',
+          );
+        }
+        this.changeNameEmitter.fire(`${this.name} (disconnected)`);
+        return;
+      }
       this.changeNameEmitter.fire('connection lost');
       this.closeEmitter.fire();
     });
 
-    const decoder = new TextDecoder('utf-8');
     this.ws.addEventListener('message', ev => {
+      let bytes: Uint8Array;
       if (typeof ev.data === 'string') {
-        this.writeEmitter.fire(ev.data);
+        bytes = new TextEncoder().encode(ev.data);
       } else if (ev.data instanceof ArrayBuffer) {
-        this.writeEmitter.fire(decoder.decode(ev.data, { stream: true }));
+        bytes = new Uint8Array(ev.data);
       } else {
         console.error(`Invalid ws data type ${typeof ev.data}`);
+        return;
+      }
+      this.output(this.decoder.decode(bytes));
+
+      if (this.decoder.hex) {
+        clearTimeout(this.hexRowTimer);
+        this.hexRowTimer = setTimeout(
+          () => this.output(this.decoder.flush()),
+          HEX_ROW_IDLE,
+        );
       }
     });
 
@@ -74,17 +162,64 @@ class RenodeWebSocketPseudoTerminal implements vscode.Pseudoterminal {
     });
   }
 
+  // Connects a terminal kept open after losing its connection to the given address
+  reconnect(address: string, token?: string): Promise<void> {
+    this.address = address;
+    this.token = token;
+    const ws = this.ws;
+    this.ws = undefined;
+    ws?.close();
+    this.writeEmitter.fire('\x1b[33m--- Reconnecting ---\x1b[0m\r\n');
+    return this.connect();
+  }
+
   close(): void {
     this.ws?.close();
     this.ws = undefined;
   }
 
+  get displayMode(): TerminalDisplayMode {
+    return this.decoder.mode;
+  }
+
+  // Hex display modes also take input as hex bytes, sent once Enter is pressed
+  setDisplayMode(mode: TerminalDisplayMode) {
+    clearTimeout(this.hexRowTimer);
+    this.output(this.decoder.flush());
+    this.decoder = new ByteDecoder(mode);
+    this.hexInput = '';
+    this.writeEmitter.fire(
+      `\r\n\x1b[33m--- Showing data as ${mode}${this.decoder.hex ? ', type hex bytes to send them' : ''} ---\x1b[0m\r\n`,
+    );
+  }
+
   handleInput(data: string): void {
     if (this.readonly) {
       return;
     }
 
-    this.ws?.send(data);
+    if (this.decoder.hex) {
+      this.handleHexInput(data);
+      return;
+    }
+    this.sendText(data);
+  }
+
+  get acceptsInput(): boolean {
+    return !this.readonly;
+  }
+
+  // Sends text as if it was typed, with its line endings translated
+  sendText(text: string) {
+    if (!this.readonly) {
+      this.ws?.send(text.replace(/\r\n|\r|\n/g, lineEnding()));
+    }
+  }
+
+  sendBytes(bytes: Uint8Array) {
+    if (!this.readonly) {
+      this.ws?.send(bytes);
+    }
   }
 
   open(initialDimensions: vscode.TerminalDimensions | undefined): void {
@@ -96,12 +231,124 @@ class RenodeWebSocketPseudoTerminal implements vscode.Pseudoterminal {
 
   setDimensions(dimensions: vscode.TerminalDimensions): void {}
 
+  // Shows data received from Renode
+  private output(text: string) {
+    if (text !== '') {
+      this.writeEmitter.fire(text);
+      this.dataEmitter.fire(text);
+    }
+  }
+
+  // Echoes the bytes being typed, as the other side would not understand them
+  private handleHexInput(data: string) {
+    for (const char of data) {
+      if (char === '\r') {
+        this.writeEmitter.fire('\r\n');
+        const bytes = parseHexBytes(this.hexInput);
+        this.hexInput = '';
+        if (bytes === undefined) {
+          this.writeEmitter.fire(
+            '\x1b[31mExpected bytes like `01 a2 ff` or `0x01, 0xa2`\x1b[0m\r\n',
+          );
+        } else if (bytes.length > 0) {
+          this.ws?.send(bytes);
+        }
+      } else if (char === '\x7f' || char === '\b') {
+        if (this.hexInput !== '') {
+          this.hexInput = this.hexInput.slice(0, -1);
+          this.writeEmitter.fire('\b \b');
+        }
+      } else if (/^[0-9a-fA-Fx, ]$/.test(char)) {
+        this.hexInput += char;
+        this.writeEmitter.fire(char);
+      }
+    }
+  }
+
   private changeNameEmitter: vscode.EventEmitter<string>;
   private closeEmitter: vscode.EventEmitter<number | void>;
   private overrideDimensionsEmitter: vscode.EventEmitter<vscode.TerminalDimensions>;
   private writeEmitter: vscode.EventEmitter<string>;
+  private dataEmitter: vscode.EventEmitter<string>;
 
   private isActive: boolean;
   private readonly: boolean;
+  private keepOpen: boolean;
+  // Token of the profile, added to the address only to connect
+  private token?: string;
   private ws?: WebSocket;
+  private decoder = new ByteDecoder('utf-8');
+  private hexRowTimer?: ReturnType<typeof setTimeout>;
+  // Hex bytes typed since the last Enter
+  private hexInput = '';
+}
+
+// Turns bytes received by a terminal into text, according to its display mode
+class ByteDecoder {
+  private utf8 = new TextDecoder('utf-8');
+  // Bytes of the hex dump row not shown yet
+  private row: number[] = [];
+  private offset = 0;
+
+  constructor(readonly mode: TerminalDisplayMode) {}
+
+  get hex(): boolean {
+    return this.mode === 'hex' || this.mode === 'hex-ascii';
+  }
+
+  decode(bytes: Uint8Array): string {
+    switch (this.mode) {
+      case 'utf-8':
+        return this.utf8.decode(bytes, { stream: true });
+      case 'latin1':
+        // `TextDecoder` treats it as windows-1252, which differs in the 0x80-0x9f range
+        return Array.from(bytes, b => String.fromCharCode(b)).join('');
+      default: {
+        this.row.push(...bytes);
+        let text = '';
+        while (this.row.length >= HEX_ROW) {
+          text += this.formatRow(this.row.splice(0, HEX_ROW));
+        }
+        return text;
+      }
+    }
+  }
+
+  // Returns the incomplete hex dump row, if there is one
+  flush(): string {
+    return this.row.length > 0 ? this.formatRow(this.row.splice(0)) : '';
+  }
+
+  private formatRow(bytes: number[]): string {
+    const hex = bytes.map(b => b.toString(16).padStart(2, '0')).join(' ');
+    if (this.mode === 'hex') {
+      return `${hex}\r\n`;
+    }
+
+    // Laid out like `hexdump -C`
+    const ascii = bytes
+      .map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'))
+      .join('');
+    const offset = this.offset.toString(16).padStart(8, '0');
+    this.offset += bytes.length;
+    return `${offset}  ${hex.padEnd(HEX_ROW * 3 - 1)}  |${ascii}|\r\n`;
+  }
+}
+
+// Parses bytes separated by spaces or commas, e.g. `01 a2 ff`, `0x1, 0xa2` or `01a2ff`
+function parseHexBytes(text: string): Uint8Array | undefined {
+  const bytes: number[] = [];
+  for (let token of text.split(/[\s,]+/).filter(t => t !== '')) {
+    token = token.replace(/^0x/i, '');
+    if (token.length === 1) {
+      token = `0${token}`;
+    }
+    if (!/^([0-9a-f]{2})+$/i.test(token)) {
+      return undefined;
+    }
+    for (let i = 0; i < token.length; i += 2) {
+      bytes.push(parseInt(token.slice(i, i + 2), 16));
+    }
+  }
+  return new Uint8Array(bytes);
 }
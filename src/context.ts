@@ -4,49 +4,64 @@
 
 import * as vscode from 'vscode';
 import { RenodeFsProvider } from './fs';
+import { Sensor, SensorType, SensorValue, UartOpenedArgs } from 'renode-ws-api';
+import { RenodeSession, RenodeState, RenodeStateChangeEvent } from './session';
 import {
-  RenodeProxySession,
-  Sensor,
-  SensorType,
-  SensorValue,
-  UartOpenedArgs,
-} from 'renode-ws-api';
-import { createRenodeWebSocketTerminal } from './console';
-import { delay } from './utils';
+  DEFAULT_PROFILE_NAME,
+  RenodeProfile,
+  getProfiles,
+  makeProfile,
+  setProfileToken,
+} from './profiles';
 
-const DEFAULT_URI = 'ws://127.0.0.1:21234';
+// Every profile has its own session, so the default session belongs to the default profile
+export const DEFAULT_SESSION_NAME = DEFAULT_PROFILE_NAME;
 
-// NOTE: initial port is reserved for Renode logs, successive ports are used for UARTs
-export const INITIAL_PORT = 29170;
+export { INITIAL_PORT } from './session';
 
-export class RenodePluginContext {
-  // TODO: Remove once more than one debugging session is supported.
-  public isDebugging = false;
-  public onPreDisconnect: vscode.Event<RenodePluginContext>;
-  public onUartOpened: vscode.Event<UartOpenedArgs>;
+export interface SessionUartOpenedArgs extends UartOpenedArgs {
+  session: RenodeSession;
+}
 
-  private currentSession?: RenodeProxySession;
+export class RenodePluginContext {
+  public onPreDisconnect: vscode.Event<RenodeSession>;
+  public onUartOpened: vscode.Event<SessionUartOpenedArgs>;
+  public onDidChangeSessions: vscode.Event<void>;
+  // Fired on state transitions of every session, not only the active one
+  public onDidChangeState: vscode.Event<RenodeStateChangeEvent>;
+
+  private sessions = new Map<string, RenodeSession>();
+  // Names of sessions created from `renode.profiles`, as opposed to ones added at runtime
+  private profileSessions = new Set<string>();
+  private activeSessionName = DEFAULT_SESSION_NAME;
   private status: vscode.StatusBarItem;
-  private preDisconnectEmitter: vscode.EventEmitter<RenodePluginContext>;
-  private uartOpenedEmitter: vscode.EventEmitter<UartOpenedArgs>;
+  private preDisconnectEmitter: vscode.EventEmitter<RenodeSession>;
+  private uartOpenedEmitter: vscode.EventEmitter<SessionUartOpenedArgs>;
+  private sessionsChangedEmitter: vscode.EventEmitter<void>;
+  private stateEmitter: vscode.EventEmitter<RenodeStateChangeEvent>;
+  // Running `renodegdb` debug sessions, along with the name of the Renode session each debugs
+  private gdbSessions = new Map<vscode.DebugSession, string>();
 
   private advancedConnectCommand = 'renode.advancedSessionConnect';
   private connectCommand = 'renode.sessionConnect';
   private disconnectCommand = 'renode.sessionDisconnect';
+  private setTokenCommand = 'renode.setProfileToken';
 
   private disposables: vscode.Disposable[] = [];
 
-  private lastPort: number = INITIAL_PORT;
-
-  constructor() {
-    this.preDisconnectEmitter = new vscode.EventEmitter<RenodePluginContext>();
-    this.uartOpenedEmitter = new vscode.EventEmitter<UartOpenedArgs>();
+  constructor(private secrets: vscode.SecretStorage) {
+    this.preDisconnectEmitter = new vscode.EventEmitter<RenodeSession>();
+    this.uartOpenedEmitter = new vscode.EventEmitter<SessionUartOpenedArgs>();
+    this.sessionsChangedEmitter = new vscode.EventEmitter<void>();
+    this.stateEmitter = new vscode.EventEmitter<RenodeStateChangeEvent>();
     this.onPreDisconnect = this.preDisconnectEmitter.event;
     this.onUartOpened = this.uartOpenedEmitter.event;
+    this.onDidChangeSessions = this.sessionsChangedEmitter.event;
+    this.onDidChangeState = this.stateEmitter.event;
 
     const connectCommand = vscode.commands.registerCommand(
       this.connectCommand,
-      () => this.connectCommandHandler(),
+      (profileName?: string) => this.connectCommandHandler(profileName),
     );
     const advancedConnectCommand = vscode.commands.registerCommand(
       this.advancedConnectCommand,
@@ -56,6 +71,10 @@ export class RenodePluginContext {
       this.disconnectCommand,
       () => this.disconnectCommandHandler(),
     );
+    const setTokenCommand = vscode.commands.registerCommand(
+      this.setTokenCommand,
+      () => this.setTokenCommandHandler(),
+    );
 
     this.status = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Left,
@@ -66,66 +85,176 @@ export class RenodePluginContext {
     this.disposables.push(connectCommand);
     this.disposables.push(advancedConnectCommand);
     this.disposables.push(disconnectCommand);
+    this.disposables.push(setTokenCommand);
 
+    const fsProvider = new RenodeFsProvider(this);
     const fsRegistration = vscode.workspace.registerFileSystemProvider(
       'renodehyp',
-      new RenodeFsProvider(this),
+      fsProvider,
+    );
+    this.disposables.push(fsProvider, fsRegistration);
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('renode')) {
+          this.syncProfiles();
+        }
+      }),
     );
-    this.disposables.push(fsRegistration);
 
-    this.updateStatus();
+    // Debuggers are started in the active session
+    this.disposables.push(
+      vscode.debug.onDidStartDebugSession(session => {
+        if (session.type === 'renodegdb') {
+          this.gdbSessions.set(session, this.activeSessionName);
+        }
+      }),
+      vscode.debug.onDidTerminateDebugSession(session =>
+        this.gdbSessions.delete(session),
+      ),
+    );
+
+    this.syncProfiles();
   }
 
   get defaultSessionBase(): string {
-    const cfg = vscode.workspace.getConfiguration('renode');
-    const uri = cfg.get<string>('defaultSessionUri');
-    return uri ?? DEFAULT_URI;
+    return this.sessions.get(DEFAULT_SESSION_NAME)!.uri;
+  }
+
+  get activeSession(): RenodeSession {
+    return this.sessions.get(this.activeSessionName)!;
+  }
+
+  get state(): RenodeState {
+    return this.activeSession.state;
+  }
+
+  get emulationActive(): boolean {
+    return this.activeSession.emulationActive;
   }
 
   get sessionBase(): string | undefined {
-    return this.currentSession?.sessionBase;
+    return this.activeSession.sessionBase;
   }
 
   get socketReady(): boolean {
-    return this.currentSession?.socketReady ?? false;
+    return this.activeSession.socketReady;
   }
 
-  async startRenode() {
-    await this.connectGuard();
+  // Running `renodegdb` debug sessions, only the ones debugging the given Renode session if any
+  getDebugSessions(session?: RenodeSession): vscode.DebugSession[] {
+    return [...this.gdbSessions]
+      .filter(([, name]) => session === undefined || name === session.name)
+      .map(([debugSession]) => debugSession);
+  }
+
+  // *** Session management ***
+
+  listSessions(): RenodeSession[] {
+    return [...this.sessions.values()];
+  }
+
+  // Returns the session with the given name, or the active one if no name is given
+  getSession(name?: string): RenodeSession | undefined {
+    if (name === undefined || name === '') {
+      return this.activeSession;
+    }
+    return this.sessions.get(name);
+  }
+
+  addSession(profile: RenodeProfile): RenodeSession {
+    const name = profile.name;
+    if (this.sessions.has(name)) {
+      throw new Error(`Renode session '${name}' already exists`);
+    }
 
-    await this.currentSession!.startRenode();
+    const session = new RenodeSession(profile, this.secrets);
+    session.onPreDisconnect(
+      s => this.preDisconnectEmitter.fire(s),
+      undefined,
+      this.disposables,
+    );
+    session.onUartOpened(
+      args => this.uartOpenedEmitter.fire({ ...args, session }),
+      undefined,
+      this.disposables,
+    );
+    session.onDidChangeState(
+      event => this.stateEmitter.fire(event),
+      undefined,
+      this.disposables,
+    );
+    session.onDidChange(
+      () => {
+        this.updateStatus();
+        this.sessionsChangedEmitter.fire();
+      },
+      undefined,
+      this.disposables,
+    );
+    this.sessions.set(name, session);
 
-    this.isDebugging = true;
+    this.updateStatus();
+    this.sessionsChangedEmitter.fire();
+    return session;
   }
 
-  async execMonitor(commands: string[]) {
-    await this.connectGuard();
+  removeSession(name: string) {
+    if (name === DEFAULT_SESSION_NAME) {
+      throw new Error('The default Renode session cannot be removed');
+    }
 
-    await this.currentSession!.execMonitor(commands);
+    const session = this.sessions.get(name);
+    if (session === undefined) {
+      return;
+    }
+
+    if (this.activeSessionName === name) {
+      this.activeSessionName = DEFAULT_SESSION_NAME;
+    }
+    this.sessions.delete(name);
+    this.profileSessions.delete(name);
+    session.dispose();
+
+    this.updateStatus();
+    this.sessionsChangedEmitter.fire();
   }
 
-  async getUarts(machine: string): Promise<string[]> {
-    await this.connectGuard();
+  setActiveSession(name: string) {
+    if (!this.sessions.has(name)) {
+      throw new Error(`Renode session '${name}' does not exist`);
+    }
 
-    return this.currentSession!.getUarts(machine);
+    this.activeSessionName = name;
+
+    this.updateStatus();
+    this.sessionsChangedEmitter.fire();
   }
 
-  async getMachines(): Promise<string[]> {
-    await this.connectGuard();
+  // *** Operations on the active session ***
 
-    return this.currentSession!.getMachines();
+  async startRenode() {
+    return this.activeSession.startRenode();
   }
 
-  async getSensors(machine: string): Promise<Sensor[]> {
-    await this.connectGuard();
+  async execMonitor(commands: string[]): Promise<string[]> {
+    return this.activeSession.execMonitor(commands);
+  }
 
-    return this.currentSession!.getSensors(machine);
+  async getUarts(machine: string): Promise<string[]> {
+    return this.activeSession.getUarts(machine);
   }
 
-  async getSensorValue(sensor: Sensor, type: SensorType): Promise<SensorValue> {
-    await this.connectGuard();
+  async getMachines(): Promise<string[]> {
+    return this.activeSession.getMachines();
+  }
 
-    return this.currentSession!.getSensorValue(sensor, type);
+  async getSensors(machine: string): Promise<Sensor[]> {
+    return this.activeSession.getSensors(machine);
+  }
+
+  async getSensorValue(sensor: Sensor, type: SensorType): Promise<SensorValue> {
+    return this.activeSession.getSensorValue(sensor, type);
   }
 
   async setSensorValue(
@@ -133,81 +262,51 @@ export class RenodePluginContext {
     type: SensorType,
     value: SensorValue,
   ): Promise<void> {
-    await this.connectGuard();
-
-    return this.currentSession!.setSensorValue(sensor, type, value);
+    return this.activeSession.setSensorValue(sensor, type, value);
   }
 
   async stopRenode() {
-    // Stopping renode does not require a connection to a session.
-    // If we're not connected that means we have lost the connection,
-    // e.g. during debugging, so just return immediately.
-    try {
-      await this.currentSession?.stopRenode();
-    } catch {}
-
-    this.isDebugging = false;
+    return this.activeSession.stopRenode();
   }
 
   async downloadZipToFs(zipUrl: string) {
-    await this.connectGuard();
-
-    this.currentSession!.fetchZipToFs(zipUrl);
+    return this.activeSession.downloadZipToFs(zipUrl);
   }
 
   async downloadFile(path: string): Promise<Uint8Array> {
-    await this.connectGuard();
-
-    return this.currentSession!.downloadFile(path);
+    return this.activeSession.downloadFile(path);
   }
 
   async sendFileFromContent(path: string, content: Uint8Array): Promise<any> {
-    await this.connectGuard();
-
-    return this.currentSession!.sendFile(path, content);
+    return this.activeSession.sendFileFromContent(path, content);
   }
 
   async sendFileFromPath(path: string): Promise<any> {
-    const uri = vscode.Uri.parse(path);
-    const data = await vscode.workspace.fs.readFile(uri);
-
-    return this.sendFileFromContent(uri.path, data);
+    return this.activeSession.sendFileFromPath(path);
   }
 
   async createDirectory(path: string): Promise<void> {
-    await this.connectGuard();
-
-    return this.currentSession!.createDirectory(path);
+    return this.activeSession.createDirectory(path);
   }
 
   async removeFile(path: string): Promise<any> {
-    await this.connectGuard();
-
-    return this.currentSession!.removeFile(path);
+    return this.activeSession.removeFile(path);
   }
 
   async moveFile(from: string, to: string): Promise<any> {
-    await this.connectGuard();
-
-    return this.currentSession!.moveFile(from, to);
+    return this.activeSession.moveFile(from, to);
   }
 
   async copyFile(from: string, to: string): Promise<any> {
-    await this.connectGuard();
-
-    return this.currentSession!.copyFile(from, to);
+    return this.activeSession.copyFile(from, to);
   }
 
   async listFiles(path: string): Promise<any[]> {
-    await this.connectGuard();
-
-    return this.currentSession!.listFiles(path);
+    return this.activeSession.listFiles(path);
   }
 
   async statFile(path: string): Promise<any> {
-    await this.connectGuard();
-
-    return this.currentSession!.statFile(path);
+    return this.activeSession.statFile(path);
   }
 
   createTerminal(
@@ -215,66 +314,69 @@ export class RenodePluginContext {
     port: number,
     readonly?: boolean,
   ): vscode.Terminal {
-    const term = createRenodeWebSocketTerminal(
-      name,
-      `${this.sessionBase}/telnet/${port}`,
-      readonly,
-    );
-    term.show(false);
-    let disposable = this.onPreDisconnect(() => {
-      term.dispose();
-      disposable.dispose();
-    });
-    return term;
+    return this.activeSession.createTerminal(name, port, readonly);
   }
 
   async createUARTTerminal(
     machine: string,
     uart: string,
   ): Promise<vscode.Terminal> {
-    // TODO: add protocol support for ws endpoint creation with uart terminal
-    this.lastPort += 1;
-    let monitorCommands = [
-      `mach set "${machine}"`,
-      `emulation CreateServerSocketTerminal ${this.lastPort} "sst-${this.lastPort}"`,
-      `sst-${this.lastPort} AttachTo ${uart}`,
-    ];
+    return this.activeSession.createUARTTerminal(machine, uart);
+  }
+
+  async findOrphanedUartSockets(): Promise<number[]> {
+    return this.activeSession.findOrphanedUartSockets();
+  }
 
-    await this.execMonitor(monitorCommands);
-    return this.createTerminal(`${uart} (${machine})`, this.lastPort);
+  async removeUartSocket(port: number) {
+    return this.activeSession.removeUartSocket(port);
   }
 
   dispose() {
-    this.currentSession?.dispose();
+    this.sessions.forEach(session => session.dispose());
 
     this.disposables.forEach(disposable => disposable.dispose());
   }
 
   private updateStatus() {
-    if (this.socketReady) {
-      this.status.text = '$(pass-filled) Renode Session Connected';
-      this.status.backgroundColor = new vscode.ThemeColor(
-        'statusBarItem.warningBackground',
-      );
-      this.status.command = this.disconnectCommand;
-    } else {
-      this.status.text = '$(circle-large-outline) Renode Session Not Connected';
-      this.status.backgroundColor = new vscode.ThemeColor(
-        'statusBarItem.background',
-      );
-      this.status.command = this.connectCommand;
+    const session = this.activeSession;
+    const suffix = ` (${session.name})`;
+    switch (session.state) {
+      case RenodeState.CONNECTING:
+        this.status.text = session.reconnecting
+          ? `$(sync~spin) Renode Session Reconnecting (attempt ${session.reconnectAttempt})${suffix}`
+          : `$(sync~spin) Renode Session Connecting${suffix}`;
+        this.status.backgroundColor = new vscode.ThemeColor(
+          session.reconnecting
+            ? 'statusBarItem.errorBackground'
+            : 'statusBarItem.background',
+        );
+        // Clicking the item stops trying to reconnect
+        this.status.command = this.disconnectCommand;
+        break;
+      case RenodeState.DISCONNECTED:
+        this.status.text = `$(circle-large-outline) Renode Session Not Connected${suffix}`;
+        this.status.backgroundColor = new vscode.ThemeColor(
+          'statusBarItem.background',
+        );
+        this.status.command = this.connectCommand;
+        break;
+      default:
+        this.status.text = `$(pass-filled) Renode Session Connected${suffix}`;
+        this.status.backgroundColor = new vscode.ThemeColor(
+          'statusBarItem.warningBackground',
+        );
+        this.status.command = this.disconnectCommand;
+        break;
     }
+    this.status.tooltip = `Profile '${session.name}': ${session.uri}`;
     this.status.show();
   }
 
   // *** Command handlers ***
 
   private disconnectCommandHandler() {
-    this.preDisconnectEmitter?.fire(this);
-    this.currentSession?.dispose();
-    this.currentSession = undefined;
-
-    this.updateStatus();
+    this.activeSession.disconnect();
   }
 
   private async advancedConnectCommandHandler() {
@@ -285,58 +387,108 @@ export class RenodePluginContext {
     });
 
     response = response?.trim();
-    const wsUri =
-      response === undefined || response === '' ? undefined : response;
-    return this.connectCommandHandler(wsUri);
-  }
-
-  private async connectCommandHandler(wsUri: string = this.defaultSessionBase) {
-    this.disconnectCommandHandler();
-    const cfg = vscode.workspace.getConfiguration('renode');
-    const workspace = cfg?.get<string>('workspace');
-
-    const retryNumber = 5;
-    const delayTime = 1000;
-
-    // Connect with retry
-    for (let i = 0; i < retryNumber; i++) {
-      try {
-        this.currentSession = await RenodeProxySession.tryConnect(
-          // If connection fails, error will be caught and connecting will be retried again after delay
-          wsUri,
-          workspace ?? '',
-        );
-        break; // Will reach this break if connection succeeds
-      } catch (e) {
-        await delay(delayTime);
+    if (response === undefined || response === '') {
+      return this.connectCommandHandler();
+    }
+
+    let session = this.listSessions().find(s => s.uri === response);
+    if (session === undefined) {
+      let name = await vscode.window.showInputBox({
+        title: 'Session name',
+        value: sessionNameFromUri(response),
+        prompt: 'Name used to refer to this session',
+        validateInput: value =>
+          this.sessions.has(value.trim())
+            ? `Session '${value.trim()}' already exists`
+            : undefined,
+      });
+      name = name?.trim();
+      if (name === undefined || name === '') {
+        return;
       }
+      session = this.addSession(makeProfile(name, response));
     }
 
-    this.currentSession?.addEventListener('close', () => this.onClose());
-    this.updateStatus();
-    this.currentSession?.registerUartOpenedCallback(args =>
-      this.uartOpenedEmitter?.fire(args),
-    );
+    return this.connectCommandHandler(session.name);
+  }
+
+  private async connectCommandHandler(profileName?: string) {
+    if (profileName === undefined && this.sessions.size > 1) {
+      profileName = await this.pickProfile('Connect to Renode session');
+      if (profileName === undefined) {
+        return;
+      }
+    }
+
+    if (profileName !== undefined) {
+      this.setActiveSession(profileName);
+    }
+    await this.activeSession.connect();
   }
 
-  // *** Event handlers ***
+  private async setTokenCommandHandler() {
+    const profileName = await this.pickProfile('Set authentication token');
+    if (profileName === undefined) {
+      return;
+    }
 
-  private onClose() {
-    this.currentSession = undefined;
-    this.isDebugging = false;
-    this.updateStatus();
+    const token = await vscode.window.showInputBox({
+      title: `Authentication token for '${profileName}'`,
+      prompt: 'Leave empty to remove the stored token',
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (token === undefined) {
+      return;
+    }
+    await setProfileToken(this.secrets, profileName, token.trim());
   }
 
   // *** Utilities ***
 
-  // Execute this function to guard the function from being executed without a session connection
-  private async connectGuard() {
-    if (!this.socketReady) {
-      await this.connectCommandHandler();
+  private async pickProfile(title: string): Promise<string | undefined> {
+    const picked = await vscode.window.showQuickPick(
+      this.listSessions().map(session => ({
+        label: session.name,
+        description: session.uri,
+        detail: session.socketReady ? 'Connected' : undefined,
+      })),
+      {
+        canPickMany: false,
+        title,
+      },
+    );
+    return picked?.label;
+  }
+
+  // Makes sure every profile from the settings has a session, and that it is up to date
+  private syncProfiles() {
+    const profiles = getProfiles();
+    for (const profile of profiles) {
+      const session = this.sessions.get(profile.name);
+      if (session === undefined) {
+        this.addSession(profile);
+      } else {
+        session.profile = profile;
+      }
+      this.profileSessions.add(profile.name);
     }
 
-    if (!this.socketReady) {
-      throw new Error('Could not connect to Renode Session');
+    for (const name of this.profileSessions) {
+      if (!profiles.some(profile => profile.name === name)) {
+        this.removeSession(name);
+      }
     }
+
+    this.updateStatus();
+    this.sessionsChangedEmitter.fire();
+  }
+}
+
+function sessionNameFromUri(uri: string): string {
+  try {
+    return new URL(uri).host;
+  } catch {
+    return uri;
   }
 }
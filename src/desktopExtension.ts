@@ -3,14 +3,20 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
 import * as utils from './utils';
 import { LaunchRequestArguments } from './program/gdb';
 import { activateExtension } from './extensionActivate';
 import { RenodeSetup } from './setup';
+import { DEFAULT_SESSION_NAME } from './context';
+import { RenodeExtensionApi } from './api';
+import { hostUartBridges } from './uartBridge';
 
 // Entry point for the desktop version of the extension
-export async function activate(context: vscode.ExtensionContext) {
-  activateExtension(context);
+export async function activate(
+  context: vscode.ExtensionContext,
+): Promise<RenodeExtensionApi> {
+  const api = activateExtension(context, hostUartBridges, fs.appendFile);
 
   // Logic specific to the desktop version goes here
   let setup = new RenodeSetup(context);
@@ -20,10 +26,22 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.workspace.onDidChangeConfiguration(setup.settingsChange, setup),
     );
 
-    vscode.commands.executeCommand('renode.sessionConnect');
+    vscode.commands.executeCommand(
+      'renode.sessionConnect',
+      DEFAULT_SESSION_NAME,
+    );
   });
+
+  return api;
 }
 
 export function deactivate() {}
 
 export { LaunchRequestArguments as RenodeLaunchRequestArguments, utils };
+export type {
+  RenodeExtensionApi,
+  RenodeUartOpenedEvent,
+  RenodeDisconnectEvent,
+  RenodeSessionState,
+  RenodeStateChangeEvent,
+} from './api';
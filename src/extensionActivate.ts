@@ -5,17 +5,69 @@
 import * as vscode from 'vscode';
 import * as utils from './utils';
 import { LaunchRequestArguments, RenodeGdbDebugSession } from './program/gdb';
-import { registerConsoleCommands } from './program/consoleCommand';
+import {
+  UartBridgeProvider,
+  registerConsoleCommands,
+} from './program/consoleCommand';
+import { registerLogViewerCommands } from './program/logViewer';
+import { registerLogDiagnostics } from './program/logDiagnostics';
+import { RenodeLogStream } from './program/logStream';
+import { registerRunControlCommands } from './program/runControl';
+import { registerRunScriptCommands } from './program/runScript';
+import { registerRobotTests } from './program/robotTests';
+import {
+  LocalFileAppender,
+  registerUartRecordingCommands,
+} from './program/uartRecording';
+import { registerTerminalInputCommands } from './program/terminalInput';
+import { registerUartWait } from './program/uartWait';
+import { registerTerminalLinks } from './program/terminalLinks';
+import { registerUartTimelineCommands } from './program/uartTimeline';
 import { SensorsViewProvider } from './program/sensorsWebview';
-import { RenodePluginContext } from './context';
+import {
+  MachinesViewProvider,
+  registerMachineCommands,
+} from './program/machinesView';
+import {
+  SnapshotsViewProvider,
+  registerSnapshotCommands,
+} from './program/snapshotsView';
+import {
+  SessionsViewProvider,
+  registerSessionCommands,
+} from './program/sessionsView';
+import { registerRescLanguage } from './language/resc';
+import { registerReplLanguage } from './language/repl';
+import { DEFAULT_SESSION_NAME, RenodePluginContext } from './context';
+import { RenodeExtensionApi, createExtensionApi } from './api';
 
 // Common activation logic for both the web and desktop extensions
-export function activateExtension(context: vscode.ExtensionContext) {
+export function activateExtension(
+  context: vscode.ExtensionContext,
+  bridgeProvider?: UartBridgeProvider,
+  localFileAppender?: LocalFileAppender,
+): RenodeExtensionApi {
   console.log('Renode extension loaded');
 
-  let ctx = new RenodePluginContext();
+  let ctx = new RenodePluginContext(context.secrets);
   context.subscriptions.push(ctx);
-  registerConsoleCommands(context.subscriptions, ctx);
+  registerConsoleCommands(context.subscriptions, ctx, bridgeProvider);
+  registerUartRecordingCommands(context.subscriptions, ctx, localFileAppender);
+  registerTerminalInputCommands(context.subscriptions);
+  registerUartWait(context.subscriptions, ctx);
+  registerTerminalLinks(context.subscriptions, ctx);
+  registerUartTimelineCommands(context.subscriptions, ctx);
+
+  const logStream = new RenodeLogStream(ctx);
+  context.subscriptions.push(logStream);
+  registerLogViewerCommands(context.subscriptions, logStream);
+  registerLogDiagnostics(context.subscriptions, ctx, logStream);
+  registerSessionCommands(context.subscriptions, ctx);
+  registerRunControlCommands(context.subscriptions, ctx);
+  registerRunScriptCommands(context.subscriptions, ctx);
+  registerRobotTests(context.subscriptions, ctx);
+  registerRescLanguage(context.subscriptions, ctx);
+  registerReplLanguage(context.subscriptions);
 
   const adapterDisposable = vscode.debug.registerDebugAdapterDescriptorFactory(
     'renodegdb',
@@ -31,9 +83,15 @@ export function activateExtension(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(
     vscode.commands.registerCommand('renode.mountFolder', () => {
+      const session = ctx.activeSession;
+      const isDefault = session.name === DEFAULT_SESSION_NAME;
       vscode.workspace.updateWorkspaceFolders(0, 0, {
-        name: 'Renode Outputs',
-        uri: vscode.Uri.parse('renodehyp:/'),
+        name: isDefault ? 'Renode Outputs' : `Renode Outputs (${session.name})`,
+        uri: vscode.Uri.from({
+          scheme: 'renodehyp',
+          authority: isDefault ? '' : session.name,
+          path: '/',
+        }),
       });
     }),
   );
@@ -41,51 +99,59 @@ export function activateExtension(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand('renode.unmountFolder', () => {
       const folders = vscode.workspace.workspaceFolders ?? [];
-      const idx = folders.findIndex(
-        folder => folder.uri.scheme === 'renodehyp',
+      const session = ctx.activeSession;
+      const authority =
+        session.name === DEFAULT_SESSION_NAME ? '' : session.name;
+      let idx = folders.findIndex(
+        folder =>
+          folder.uri.scheme === 'renodehyp' &&
+          folder.uri.authority === authority,
       );
+      if (idx === -1) {
+        idx = folders.findIndex(folder => folder.uri.scheme === 'renodehyp');
+      }
       if (idx !== -1) {
         vscode.workspace.updateWorkspaceFolders(idx, 1);
       }
     }),
   );
 
-  const sensorProvider = new SensorsViewProvider(context, ctx);
   context.subscriptions.push(
-    vscode.window.registerWebviewViewProvider(
-      SensorsViewProvider.viewType,
-      sensorProvider,
+    vscode.window.registerTreeDataProvider(
+      SessionsViewProvider.viewType,
+      new SessionsViewProvider(ctx),
     ),
   );
 
-  const trackerFactory: vscode.DebugAdapterTrackerFactory = {
-    createDebugAdapterTracker(session: vscode.DebugSession) {
-      return {
-        onDidSendMessage: message => {
-          if (message.type === 'event') {
-            switch (message.event) {
-              case 'initialized':
-              case 'terminated':
-              case 'exited':
-                // Reload the sensor WebView
-                sensorProvider.loadSensorsData();
-                break;
-              default:
-                // no action
-                break;
-            }
-          }
-        },
-      };
-    },
-  };
+  const machinesProvider = new MachinesViewProvider(ctx);
+  context.subscriptions.push(
+    machinesProvider,
+    vscode.window.registerTreeDataProvider(
+      MachinesViewProvider.viewType,
+      machinesProvider,
+    ),
+  );
+  registerMachineCommands(context.subscriptions, ctx, machinesProvider);
 
+  const snapshotsProvider = new SnapshotsViewProvider(ctx);
   context.subscriptions.push(
-    vscode.debug.registerDebugAdapterTrackerFactory(
-      'renodegdb',
-      trackerFactory,
+    snapshotsProvider,
+    vscode.window.registerTreeDataProvider(
+      SnapshotsViewProvider.viewType,
+      snapshotsProvider,
     ),
   );
+  registerSnapshotCommands(context.subscriptions, ctx, snapshotsProvider);
+
+  const sensorProvider = new SensorsViewProvider(context, ctx);
+  context.subscriptions.push(
+    vscode.window.registerWebviewViewProvider(
+      SensorsViewProvider.viewType,
+      sensorProvider,
+    ),
+  );
+
+  return createExtensionApi(context.subscriptions, ctx);
 }
 
 export function deactivate() {}
@@ -4,25 +4,86 @@
 
 import vscode from 'vscode';
 import { RenodePluginContext } from './context';
+import { RenodeSession } from './session';
 
-export class RenodeFsProvider implements vscode.FileSystemProvider {
+// The proxy does not report changes, so watched paths are polled at most this often
+const MIN_POLL_INTERVAL = 500;
+// Recursive watches stop descending past this many directories, bounding the requests of a poll
+const MAX_POLLED_DIRECTORIES = 256;
+// Files the listings give no modification time of are stat'ed once in this many polls
+const STAT_EVERY_POLLS = 10;
+const DIRECTORY_SIGNATURE = 'directory';
+
+type FileStat = Awaited<ReturnType<RenodeSession['statFile']>>;
+
+interface FileWatch {
+  uri: vscode.Uri;
+  recursive: boolean;
+  // Matched against paths relative to the watched one
+  excludes: RegExp[];
+  // Signatures of the paths found by the last poll, unset until the first one
+  snapshot?: Map<string, string>;
+  // Directories the last poll did not get to, as there were too many
+  unscanned: string[];
+  polls: number;
+}
+
+interface ScanResult {
+  signatures: Map<string, string>;
+  unscanned: string[];
+}
+
+export class RenodeFsProvider
+  implements vscode.FileSystemProvider, vscode.Disposable
+{
+  private disposables: vscode.Disposable[] = [];
   private fileChangeEmitter: vscode.EventEmitter<vscode.FileChangeEvent[]>;
+  private watches = new Set<FileWatch>();
+  private pollTimer?: ReturnType<typeof setTimeout>;
+  private polling = false;
 
   onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]>;
 
   constructor(private pluginCtx: RenodePluginContext) {
     this.fileChangeEmitter = new vscode.EventEmitter();
     this.onDidChangeFile = this.fileChangeEmitter.event;
+
+    // Polling stops once the interval is set to 0, and starts again once it is not
+    vscode.workspace.onDidChangeConfiguration(
+      e => {
+        if (e.affectsConfiguration('renode.fileWatchInterval')) {
+          this.schedulePoll();
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+  }
+
+  dispose() {
+    clearTimeout(this.pollTimer);
+    this.pollTimer = undefined;
+    this.watches.clear();
+    this.disposables.forEach(d => d.dispose());
   }
 
   watch(
-    _uri: vscode.Uri,
-    _options: {
+    uri: vscode.Uri,
+    options: {
       readonly recursive: boolean;
       readonly excludes: readonly string[];
     },
   ): vscode.Disposable {
-    return new vscode.Disposable(() => {});
+    const watch: FileWatch = {
+      uri,
+      recursive: options.recursive,
+      excludes: options.excludes.map(globToRegExp),
+      unscanned: [],
+      polls: 0,
+    };
+    this.watches.add(watch);
+    this.schedulePoll();
+    return new vscode.Disposable(() => this.watches.delete(watch));
   }
 
   async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
@@ -37,7 +98,7 @@ export class RenodeFsProvider implements vscode.FileSystemProvider {
     }
 
     try {
-      const res = await this.pluginCtx.statFile(uri.path);
+      const res = await this.session(uri).statFile(uri.path);
       return {
         ...res,
         type:
@@ -50,7 +111,7 @@ export class RenodeFsProvider implements vscode.FileSystemProvider {
   }
 
   async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
-    const files = await this.pluginCtx.listFiles(uri.path);
+    const files = await this.session(uri).listFiles(uri.path);
     return files.map(file => [
       file.name,
       (file.isfile ? vscode.FileType.File : vscode.FileType.Directory) |
@@ -59,11 +120,11 @@ export class RenodeFsProvider implements vscode.FileSystemProvider {
   }
 
   async createDirectory(uri: vscode.Uri): Promise<void> {
-    return this.pluginCtx.createDirectory(uri.path);
+    return this.session(uri).createDirectory(uri.path);
   }
 
   async readFile(uri: vscode.Uri): Promise<Uint8Array> {
-    return this.pluginCtx.downloadFile(uri.path);
+    return this.session(uri).downloadFile(uri.path);
   }
 
   async writeFile(
@@ -71,14 +132,14 @@ export class RenodeFsProvider implements vscode.FileSystemProvider {
     content: Uint8Array,
     _options: { readonly create: boolean; readonly overwrite: boolean },
   ): Promise<void> {
-    return this.pluginCtx.sendFileFromContent(uri.path, content);
+    return this.session(uri).sendFileFromContent(uri.path, content);
   }
 
   async delete(
     uri: vscode.Uri,
     options: { readonly recursive: boolean },
   ): Promise<void> {
-    return this.pluginCtx.removeFile(uri.path);
+    return this.session(uri).removeFile(uri.path);
   }
 
   async rename(
@@ -86,7 +147,7 @@ export class RenodeFsProvider implements vscode.FileSystemProvider {
     newUri: vscode.Uri,
     options: { readonly overwrite: boolean },
   ): Promise<void> {
-    return this.pluginCtx.moveFile(oldUri.path, newUri.path);
+    return this.sameSession(oldUri, newUri).moveFile(oldUri.path, newUri.path);
   }
 
   async copy(
@@ -94,6 +155,212 @@ export class RenodeFsProvider implements vscode.FileSystemProvider {
     destination: vscode.Uri,
     options: { readonly overwrite: boolean },
   ): Promise<void> {
-    return this.pluginCtx.copyFile(source.path, destination.path);
+    return this.sameSession(source, destination).copyFile(
+      source.path,
+      destination.path,
+    );
+  }
+
+  // Watches are polled one after another, with the requests of each made in sequence,
+  // and the next round is scheduled only once the previous one is done
+  private schedulePoll() {
+    const interval = pollInterval();
+    if (
+      this.pollTimer !== undefined ||
+      this.polling ||
+      this.watches.size === 0 ||
+      interval === 0
+    ) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(
+      async () => {
+        this.pollTimer = undefined;
+        this.polling = true;
+        for (const watch of [...this.watches]) {
+          const events = await this.poll(watch).catch(() => []);
+          // Watches disposed in the meantime are not reported anymore
+          if (events.length > 0 && this.watches.has(watch)) {
+            this.fileChangeEmitter.fire(events);
+          }
+        }
+        this.polling = false;
+        this.schedulePoll();
+      },
+      Math.max(interval, MIN_POLL_INTERVAL),
+    );
+  }
+
+  private async poll(watch: FileWatch): Promise<vscode.FileChangeEvent[]> {
+    const session = this.pluginCtx.getSession(watch.uri.authority);
+    // Polling must not reconnect sessions, changes are found once they are back
+    if (session === undefined || !session.socketReady) {
+      return [];
+    }
+
+    const previous = watch.snapshot;
+    const previousUnscanned = watch.unscanned;
+    const { signatures: current, unscanned } = await this.scan(session, watch);
+    watch.polls++;
+    watch.unscanned = unscanned;
+    watch.snapshot = current;
+    if (previous === undefined) {
+      return [];
+    }
+
+    const events: vscode.FileChangeEvent[] = [];
+    const uri = (path: string) => watch.uri.with({ path });
+    for (const [path, signature] of current) {
+      const old = previous.get(path);
+      if (old === undefined) {
+        // What the last poll did not get to is not new
+        if (!isWithin(path, previousUnscanned)) {
+          events.push({ type: vscode.FileChangeType.Created, uri: uri(path) });
+        }
+      } else if (old !== signature) {
+        events.push({ type: vscode.FileChangeType.Changed, uri: uri(path) });
+      }
+    }
+    for (const [path, signature] of previous) {
+      if (current.has(path)) {
+        continue;
+      }
+      if (isWithin(path, unscanned)) {
+        // Not deleted, only not scanned this time, so it is compared once it is
+        current.set(path, signature);
+      } else {
+        events.push({ type: vscode.FileChangeType.Deleted, uri: uri(path) });
+      }
+    }
+    return events;
+  }
+
+  // Finds the signatures of the watched path and, for directories, what is in them
+  private async scan(
+    session: RenodeSession,
+    watch: FileWatch,
+  ): Promise<ScanResult> {
+    const signatures = new Map<string, string>();
+    const root = watch.uri.path;
+    if (root !== '/') {
+      let stat: FileStat;
+      try {
+        stat = await session.statFile(root);
+      } catch {
+        // Deleted, which is reported for everything found before
+        return { signatures, unscanned: [] };
+      }
+      if (stat.isfile) {
+        signatures.set(root, fileSignature(stat));
+        return { signatures, unscanned: [] };
+      }
+    }
+
+    const statFiles = watch.polls % STAT_EVERY_POLLS === 0;
+    const directories = [root];
+    for (
+      let polled = 0;
+      directories.length > 0 && polled < MAX_POLLED_DIRECTORIES;
+      polled++
+    ) {
+      const directory = directories.shift()!;
+      // Failing to list a directory would make everything in it look deleted
+      const files = await session.listFiles(directory);
+      for (const file of files) {
+        const path = `${directory.replace(/\/$/, '')}/${file.name}`;
+        const relative = path.slice(root.replace(/\/$/, '').length + 1);
+        if (watch.excludes.some(exclude => exclude.test(relative))) {
+          continue;
+        }
+
+        const known = watch.snapshot?.get(path);
+        if (!file.isfile) {
+          signatures.set(path, DIRECTORY_SIGNATURE);
+          if (watch.recursive) {
+            directories.push(path);
+          }
+        } else if (file.mtime !== undefined) {
+          signatures.set(path, fileSignature(file));
+        } else if (known !== undefined && !statFiles) {
+          signatures.set(path, known);
+        } else {
+          // Listings might not include what tells changed files apart
+          signatures.set(path, fileSignature(await session.statFile(path)));
+        }
+      }
+    }
+    return { signatures, unscanned: directories };
+  }
+
+  // The URI authority selects the Renode session, an empty one means the active session
+  private session(uri: vscode.Uri): RenodeSession {
+    const session = this.pluginCtx.getSession(uri.authority);
+    if (session === undefined) {
+      throw vscode.FileSystemError.Unavailable(uri);
+    }
+    return session;
+  }
+
+  private sameSession(from: vscode.Uri, to: vscode.Uri): RenodeSession {
+    const session = this.session(from);
+    if (this.session(to) !== session) {
+      throw vscode.FileSystemError.NoPermissions(
+        'Cannot transfer files between Renode sessions',
+      );
+    }
+    return session;
+  }
+}
+
+// *** Utilities ***
+
+function pollInterval(): number {
+  return (
+    vscode.workspace
+      .getConfiguration('renode')
+      .get<number>('fileWatchInterval') ?? 2000
+  );
+}
+
+function fileSignature(stat: { mtime?: number; size?: number }): string {
+  return `${stat.mtime}:${stat.size}`;
+}
+
+function isWithin(path: string, directories: string[]): boolean {
+  return directories.some(directory => path.startsWith(`${directory}/`));
+}
+
+// Converts the glob patterns given to `watch`, e.g. `**/node_modules` or `**/*.{log,tmp}`
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directories at all
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      pattern += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      pattern += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
   }
+  return new RegExp(`^${pattern}$`);
 }
@@ -0,0 +1,55 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+
+// The document's own directory, followed by `cwd` of the Renode launch configurations
+// and the workspace folder, in the order relative paths should be resolved in
+export function fileSearchDirectories(
+  document: vscode.TextDocument,
+): vscode.Uri[] {
+  const dirs = [vscode.Uri.joinPath(document.uri, '..')];
+  const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+  if (folder === undefined) {
+    return dirs;
+  }
+
+  const configurations =
+    vscode.workspace
+      .getConfiguration('launch', document.uri)
+      .get<any[]>('configurations') ?? [];
+  for (const config of configurations) {
+    if (config.type !== 'renodegdb' || typeof config.cwd !== 'string') {
+      continue;
+    }
+    const cwd = config.cwd.replace(/\$\{workspaceFolder\}/g, folder.uri.path);
+    dirs.push(
+      cwd.startsWith('/')
+        ? folder.uri.with({ path: cwd })
+        : vscode.Uri.joinPath(folder.uri, cwd),
+    );
+  }
+  dirs.push(folder.uri);
+  return dirs;
+}
+
+// Returns the first existing location of `path`
+export async function findFile(
+  path: string,
+  dirs: vscode.Uri[],
+): Promise<vscode.Uri | undefined> {
+  const candidates = path.startsWith('/')
+    ? [dirs[0].with({ path })]
+    : dirs.map(dir => vscode.Uri.joinPath(dir, path));
+
+  for (const candidate of candidates) {
+    try {
+      await vscode.workspace.fs.stat(candidate);
+      return candidate;
+    } catch {
+      // Try the next location
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,396 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { fileSearchDirectories, findFile } from './files';
+
+const REPL_LANGUAGE_ID = 'renode-platform';
+// Limits how many included files are searched when looking for a definition
+const MAX_SEARCHED_FILES = 8;
+
+interface ReplUsing {
+  path: string;
+  range: vscode.Range;
+}
+
+interface ReplRegistration {
+  // Text after `@`, e.g. `sysbus 0x40000000`
+  text: string;
+  bus: string;
+  address?: number;
+  size?: number;
+  range: vscode.Range;
+}
+
+// A single peripheral, or an update to a peripheral defined elsewhere if it has no type
+interface ReplEntry {
+  name: string;
+  type?: string;
+  nameRange: vscode.Range;
+  // Spans the entry along with all of its indented attributes
+  range: vscode.Range;
+  registrations: ReplRegistration[];
+  attributes: Map<string, string>;
+}
+
+interface ReplDocument {
+  usings: ReplUsing[];
+  entries: ReplEntry[];
+}
+
+export function registerReplLanguage(subscriptions: any[]) {
+  subscriptions.push(
+    vscode.languages.registerDocumentSymbolProvider(
+      REPL_LANGUAGE_ID,
+      new ReplSymbolProvider(),
+    ),
+    vscode.languages.registerDefinitionProvider(
+      REPL_LANGUAGE_ID,
+      new ReplDefinitionProvider(),
+    ),
+    new ReplDiagnostics(),
+  );
+}
+
+class ReplSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(
+    document: vscode.TextDocument,
+  ): vscode.DocumentSymbol[] {
+    return parseRepl(document).entries.map(entry => {
+      const symbol = new vscode.DocumentSymbol(
+        entry.name,
+        entry.type ?? '',
+        vscode.SymbolKind.Module,
+        entry.range,
+        entry.nameRange,
+      );
+      symbol.children = entry.registrations.map(
+        registration =>
+          new vscode.DocumentSymbol(
+            registration.text,
+            '',
+            vscode.SymbolKind.Field,
+            registration.range,
+            registration.range,
+          ),
+      );
+      return symbol;
+    });
+  }
+}
+
+class ReplDefinitionProvider implements vscode.DefinitionProvider {
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Location | undefined> {
+    const repl = parseRepl(document);
+
+    const using = repl.usings.find(u => u.range.contains(position));
+    if (using !== undefined) {
+      const uri = await resolveUsing(document, using);
+      return uri && new vscode.Location(uri, new vscode.Position(0, 0));
+    }
+
+    const wordRange = document.getWordRangeAtPosition(position, /\w+/);
+    if (wordRange === undefined) {
+      return undefined;
+    }
+    return findPeripheral(
+      document,
+      repl,
+      document.getText(wordRange),
+      new Set(),
+    );
+  }
+}
+
+class ReplDiagnostics implements vscode.Disposable {
+  private collection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.collection =
+      vscode.languages.createDiagnosticCollection(REPL_LANGUAGE_ID);
+    this.disposables.push(this.collection);
+
+    vscode.workspace.onDidOpenTextDocument(
+      document => this.validate(document),
+      undefined,
+      this.disposables,
+    );
+    vscode.workspace.onDidChangeTextDocument(
+      event => this.validate(event.document),
+      undefined,
+      this.disposables,
+    );
+    vscode.workspace.onDidCloseTextDocument(
+      document => this.collection.delete(document.uri),
+      undefined,
+      this.disposables,
+    );
+
+    vscode.workspace.textDocuments.forEach(document => this.validate(document));
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private validate(document: vscode.TextDocument) {
+    if (document.languageId !== REPL_LANGUAGE_ID) {
+      return;
+    }
+
+    this.collection.set(document.uri, findOverlaps(document));
+  }
+}
+
+// *** Utilities ***
+
+// Reports system bus registrations overlapping the ones before them in address order
+export function findOverlaps(
+  document: vscode.TextDocument,
+): vscode.Diagnostic[] {
+  const ranges = parseRepl(document)
+    .entries.flatMap(entry =>
+      entry.registrations.map(registration => ({ entry, registration })),
+    )
+    .filter(
+      ({ registration }) =>
+        registration.bus === 'sysbus' &&
+        registration.address !== undefined &&
+        registration.size !== undefined,
+    )
+    .sort((a, b) => a.registration.address! - b.registration.address!);
+
+  const diagnostics: vscode.Diagnostic[] = [];
+  // The registration reaching the furthest so far, every later one starting before its end overlaps it
+  let furthest = ranges[0];
+  for (const current of ranges.slice(1)) {
+    const other = furthest.registration;
+    const end = other.address! + other.size!;
+    const { address, size } = current.registration;
+    if (address! < end) {
+      const range = formatRange(address!, size!);
+      const otherRange = formatRange(other.address!, other.size!);
+      diagnostics.push(
+        new vscode.Diagnostic(
+          current.registration.range,
+          `Address range ${range} overlaps with '${furthest.entry.name}' at ${otherRange}`,
+          vscode.DiagnosticSeverity.Error,
+        ),
+      );
+    }
+    if (address! + size! > end) {
+      furthest = current;
+    }
+  }
+  return diagnostics;
+}
+
+function parseRepl(document: vscode.TextDocument): ReplDocument {
+  const repl: ReplDocument = { usings: [], entries: [] };
+  let entry: ReplEntry | undefined;
+  let inComment = false;
+  // Inside a `{ ... }` list of registrations spanning multiple lines
+  let inRegistrationList = false;
+
+  for (let line = 0; line < document.lineCount; line++) {
+    let text = document.lineAt(line).text;
+    // Block comments are blanked out so that columns stay the same
+    if (inComment) {
+      const end = text.indexOf('*/');
+      if (end === -1) {
+        continue;
+      }
+      text = ' '.repeat(end + 2) + text.slice(end + 2);
+      inComment = false;
+    }
+    text = text.replace(/\/\*.*?\*\//g, m => ' '.repeat(m.length));
+    const commentStart = text.indexOf('/*');
+    if (commentStart !== -1) {
+      text = text.slice(0, commentStart);
+      inComment = true;
+    }
+    text = text.replace(/\/\/.*$/, '');
+    if (text.trim() === '') {
+      continue;
+    }
+
+    const using = text.match(/^using\s+"([^"]*)"/);
+    if (using !== null) {
+      const start = text.indexOf('"') + 1;
+      repl.usings.push({
+        path: using[1],
+        range: new vscode.Range(line, start, line, start + using[1].length),
+      });
+      entry = undefined;
+      continue;
+    }
+
+    // Entries start at the first column, their attributes are indented
+    const header = text.match(/^(\w+):\s*([\w.]+)?\s*(?:@\s*(.*?))?\s*$/);
+    if (header !== null) {
+      const [, name, type, registration] = header;
+      entry = {
+        name,
+        type,
+        nameRange: new vscode.Range(line, 0, line, name.length),
+        range: new vscode.Range(line, 0, line, text.length),
+        registrations: [],
+        attributes: new Map(),
+      };
+      repl.entries.push(entry);
+      inRegistrationList = false;
+      if (registration !== undefined) {
+        inRegistrationList = addRegistrations(
+          entry,
+          line,
+          text,
+          text.indexOf('@') + 1,
+        );
+      }
+      continue;
+    }
+
+    if (entry !== undefined && /^\s/.test(text)) {
+      entry.range = new vscode.Range(
+        entry.range.start,
+        new vscode.Position(line, text.length),
+      );
+      if (inRegistrationList) {
+        inRegistrationList = addRegistrations(entry, line, text, 0, true);
+        continue;
+      }
+      const attribute = text.match(/^\s+(\w+)\s*:\s*(.*?)\s*;?$/);
+      if (attribute !== null) {
+        entry.attributes.set(attribute[1], attribute[2]);
+      }
+    }
+  }
+
+  // The size of plain address registrations comes from the peripheral itself, e.g. for memories
+  for (const entry of repl.entries) {
+    const size = parseNumber(entry.attributes.get('size'));
+    for (const registration of entry.registrations) {
+      registration.size ??= size;
+    }
+  }
+  return repl;
+}
+
+// Parses registrations from `text` starting at `column`, which is either a single one,
+// e.g. `sysbus <0x0, +0x100>`, or a `{ sysbus 0x0; sysbus 0x1000 }` list.
+// Returns true if the list continues on the next line.
+function addRegistrations(
+  entry: ReplEntry,
+  line: number,
+  text: string,
+  column: number,
+  inList = false,
+): boolean {
+  let content = text.slice(column);
+  if (!inList) {
+    const open = content.indexOf('{');
+    inList = open !== -1;
+    if (inList) {
+      column += open + 1;
+      content = text.slice(column);
+    }
+  }
+  const close = content.indexOf('}');
+  if (close !== -1) {
+    content = content.slice(0, close);
+  }
+
+  const parts = inList ? content.split(';') : [content];
+  for (const part of parts) {
+    const trimmed = part.trim();
+    if (trimmed !== '') {
+      const start = text.indexOf(trimmed, column);
+      entry.registrations.push({
+        ...parseRegistration(trimmed),
+        range: new vscode.Range(line, start, line, start + trimmed.length),
+      });
+    }
+    column += part.length + 1;
+  }
+  return inList && close === -1;
+}
+
+function parseRegistration(text: string): Omit<ReplRegistration, 'range'> {
+  const bus = text.match(/^\w+/)?.[0] ?? '';
+  const range = text.match(/<\s*(\w+)\s*,\s*(\+)?\s*(\w+)\s*>/);
+  if (range !== null) {
+    const start = parseNumber(range[1]);
+    const end = parseNumber(range[3]);
+    if (start !== undefined && end !== undefined) {
+      // Without `+` the end is inclusive
+      const size = range[2] !== undefined ? end : end - start + 1;
+      return { text, bus, address: start, size };
+    }
+    return { text, bus };
+  }
+
+  const address = text.match(/^\w+\s+(0x[0-9a-fA-F]+|\d+)\b/);
+  return { text, bus, address: parseNumber(address?.[1]) };
+}
+
+function parseNumber(text?: string): number | undefined {
+  if (text === undefined || !/^(0x[0-9a-fA-F]+|\d+)$/.test(text.trim())) {
+    return undefined;
+  }
+  return Number(text.trim());
+}
+
+function formatRange(address: number, size: number): string {
+  const hex = (n: number) => `0x${n.toString(16)}`;
+  return `<${hex(address)}, ${hex(address + size - 1)}>`;
+}
+
+async function resolveUsing(
+  document: vscode.TextDocument,
+  using: ReplUsing,
+): Promise<vscode.Uri | undefined> {
+  return findFile(using.path, fileSearchDirectories(document));
+}
+
+// Looks for the entry defining `name` in the document and the files it includes
+async function findPeripheral(
+  document: vscode.TextDocument,
+  repl: ReplDocument,
+  name: string,
+  visited: Set<string>,
+): Promise<vscode.Location | undefined> {
+  visited.add(document.uri.toString());
+
+  // Entries without a type only update a peripheral, prefer the one that creates it
+  const entries = repl.entries.filter(e => e.name === name);
+  const entry = entries.find(e => e.type !== undefined) ?? entries[0];
+  if (entry !== undefined && entry.type !== undefined) {
+    return new vscode.Location(document.uri, entry.nameRange);
+  }
+
+  if (visited.size < MAX_SEARCHED_FILES) {
+    for (const using of repl.usings) {
+      const uri = await resolveUsing(document, using);
+      if (uri === undefined || visited.has(uri.toString())) {
+        continue;
+      }
+      const included = await vscode.workspace.openTextDocument(uri);
+      const location = await findPeripheral(
+        included,
+        parseRepl(included),
+        name,
+        visited,
+      );
+      if (location !== undefined) {
+        return location;
+      }
+    }
+  }
+
+  return entry && new vscode.Location(document.uri, entry.nameRange);
+}
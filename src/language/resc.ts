@@ -0,0 +1,432 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { RenodePluginContext } from '../context';
+import { RenodeState } from '../session';
+import { Peripheral, getPeripherals } from '../program/machinesView';
+import {
+  MONITOR_COMMANDS,
+  MONITOR_OBJECTS,
+  findMonitorCommand,
+} from './rescCommands';
+import { fileSearchDirectories, findFile } from './files';
+
+const RESC_LANGUAGE_ID = 'renode-script';
+
+interface RescToken {
+  text: string;
+  range: vscode.Range;
+}
+
+// A single monitor command, macro bodies and other multi-line strings are skipped
+interface RescStatement {
+  tokens: RescToken[];
+}
+
+export function registerRescLanguage(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+) {
+  const peripherals = new LivePeripherals(pluginCtx);
+  const diagnostics = new RescDiagnostics(peripherals);
+  subscriptions.push(peripherals, diagnostics);
+
+  subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(
+      RESC_LANGUAGE_ID,
+      new RescCompletionProvider(peripherals),
+      '$',
+    ),
+    vscode.languages.registerHoverProvider(
+      RESC_LANGUAGE_ID,
+      new RescHoverProvider(),
+    ),
+  );
+}
+
+// Peripherals of the active session, used to complete and validate peripheral names
+class LivePeripherals implements vscode.Disposable {
+  public onDidChange: vscode.Event<void>;
+  // Monitor paths of all peripherals, e.g. `sysbus.uart0`
+  private paths: string[] = [];
+  private pending?: Promise<string[]>;
+  private stale = true;
+  // Name of the session the peripherals come from
+  private session: string;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [this.changeEmitter];
+
+  constructor(private pluginCtx: RenodePluginContext) {
+    this.onDidChange = this.changeEmitter.event;
+    this.session = pluginCtx.activeSession.name;
+
+    pluginCtx.onDidChangeState(
+      event => {
+        // Same transitions after which the machines might have changed as in the Machines view
+        if (
+          event.session === pluginCtx.activeSession &&
+          (event.previous === RenodeState.EMULATION_STARTED ||
+            event.state === RenodeState.CONNECTED ||
+            event.state === RenodeState.STOPPED ||
+            event.state === RenodeState.DISCONNECTED)
+        ) {
+          this.stale = true;
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+    pluginCtx.onDidChangeSessions(
+      () => {
+        if (this.session !== pluginCtx.activeSession.name) {
+          this.session = pluginCtx.activeSession.name;
+          this.stale = true;
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+  }
+
+  // Returns what is known without querying the session
+  get current(): string[] {
+    return this.paths;
+  }
+
+  async fetch(): Promise<string[]> {
+    if (!this.stale || !this.pluginCtx.socketReady) {
+      return this.paths;
+    }
+
+    this.pending ??= this.query().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private async query(): Promise<string[]> {
+    const flatten = (list: Peripheral[]): string[] =>
+      list.flatMap(p => [p.path, ...flatten(p.children)]);
+
+    try {
+      const machines = await this.pluginCtx.getMachines();
+      const paths = [];
+      for (const machine of machines) {
+        paths.push(...flatten(await getPeripherals(this.pluginCtx, machine)));
+      }
+      this.paths = [...new Set(paths)];
+    } catch {
+      this.paths = [];
+    }
+    this.stale = false;
+    this.changeEmitter.fire();
+    return this.paths;
+  }
+}
+
+class RescCompletionProvider implements vscode.CompletionItemProvider {
+  constructor(private peripherals: LivePeripherals) {}
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const prefix = document
+      .lineAt(position)
+      .text.slice(0, position.character)
+      .trimStart();
+
+    if (/\$\w*$/.test(prefix)) {
+      return collectVariables(document).map(name => {
+        const item = new vscode.CompletionItem(
+          `$${name}`,
+          vscode.CompletionItemKind.Variable,
+        );
+        // The `$` is already typed
+        item.insertText = name;
+        item.filterText = name;
+        return item;
+      });
+    }
+
+    const words = prefix.split(/\s+/);
+    if (words.length === 1) {
+      const items: vscode.CompletionItem[] = [];
+      for (const command of MONITOR_COMMANDS) {
+        const item = new vscode.CompletionItem(
+          command.name,
+          vscode.CompletionItemKind.Keyword,
+        );
+        item.detail = command.usage;
+        item.documentation = new vscode.MarkdownString(command.description);
+        items.push(item);
+      }
+      for (const object of MONITOR_OBJECTS) {
+        const item = new vscode.CompletionItem(
+          object.name,
+          vscode.CompletionItemKind.Module,
+        );
+        item.documentation = new vscode.MarkdownString(object.description);
+        items.push(item);
+      }
+      for (const path of await this.peripherals.fetch()) {
+        items.push(
+          new vscode.CompletionItem(path, vscode.CompletionItemKind.Field),
+        );
+      }
+      return items;
+    }
+
+    const object = MONITOR_OBJECTS.find(o => o.name === words[0]);
+    if (words.length === 2 && object !== undefined) {
+      return object.members.map(member => {
+        const item = new vscode.CompletionItem(
+          member.name,
+          vscode.CompletionItemKind.Method,
+        );
+        item.detail = member.usage;
+        item.documentation = new vscode.MarkdownString(member.description);
+        return item;
+      });
+    }
+    return undefined;
+  }
+}
+
+class RescHoverProvider implements vscode.HoverProvider {
+  provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): vscode.Hover | undefined {
+    const statement = parseResc(document).find(
+      s => s.tokens[0].range.start.line === position.line,
+    );
+    const index =
+      statement?.tokens.findIndex(t => t.range.contains(position)) ?? -1;
+    if (statement === undefined || index === -1) {
+      return undefined;
+    }
+
+    const token = statement.tokens[index];
+    const first = statement.tokens[0].text;
+    const markdown = new vscode.MarkdownString();
+    if (index === 0) {
+      const command = findMonitorCommand(first);
+      const object = MONITOR_OBJECTS.find(o => o.name === first);
+      if (command !== undefined) {
+        markdown.appendCodeblock(command.usage, RESC_LANGUAGE_ID);
+        markdown.appendMarkdown(command.description);
+      } else if (object !== undefined) {
+        markdown.appendMarkdown(object.description);
+      } else {
+        return undefined;
+      }
+    } else if (index === 1) {
+      const member = MONITOR_OBJECTS.find(o => o.name === first)?.members.find(
+        m => m.name === token.text,
+      );
+      if (member === undefined) {
+        return undefined;
+      }
+      markdown.appendCodeblock(member.usage, RESC_LANGUAGE_ID);
+      markdown.appendMarkdown(member.description);
+    } else {
+      return undefined;
+    }
+    return new vscode.Hover(markdown, token.range);
+  }
+}
+
+class RescDiagnostics implements vscode.Disposable {
+  private collection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private peripherals: LivePeripherals) {
+    this.collection =
+      vscode.languages.createDiagnosticCollection(RESC_LANGUAGE_ID);
+    this.disposables.push(this.collection);
+
+    vscode.workspace.onDidOpenTextDocument(
+      document => this.validate(document),
+      undefined,
+      this.disposables,
+    );
+    vscode.workspace.onDidChangeTextDocument(
+      event => this.validate(event.document),
+      undefined,
+      this.disposables,
+    );
+    vscode.workspace.onDidCloseTextDocument(
+      document => this.collection.delete(document.uri),
+      undefined,
+      this.disposables,
+    );
+    // Scripts might reference peripherals that only now became known
+    peripherals.onDidChange(
+      () => this.validateAll(),
+      undefined,
+      this.disposables,
+    );
+
+    this.validateAll();
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private validateAll() {
+    vscode.workspace.textDocuments.forEach(document => this.validate(document));
+  }
+
+  private async validate(document: vscode.TextDocument) {
+    if (document.languageId !== RESC_LANGUAGE_ID) {
+      return;
+    }
+
+    const version = document.version;
+    const diagnostics: vscode.Diagnostic[] = [];
+    const checks: Promise<void>[] = [];
+    const searchDirs = fileSearchDirectories(document);
+    const peripherals = this.peripherals.current;
+
+    for (const { tokens } of parseResc(document)) {
+      const [command, next] = tokens;
+      if (!isKnownCommand(command.text, next?.text, peripherals)) {
+        diagnostics.push(
+          new vscode.Diagnostic(
+            command.range,
+            `Unknown command '${command.text}'`,
+            vscode.DiagnosticSeverity.Warning,
+          ),
+        );
+      }
+
+      for (const token of tokens) {
+        const path = fileReference(token.text, document);
+        if (path === undefined) {
+          continue;
+        }
+        checks.push(
+          findFile(path, searchDirs).then(found => {
+            if (found === undefined) {
+              diagnostics.push(
+                new vscode.Diagnostic(
+                  token.range,
+                  `File not found: ${path}`,
+                  vscode.DiagnosticSeverity.Warning,
+                ),
+              );
+            }
+          }),
+        );
+      }
+    }
+
+    await Promise.all(checks);
+    // Results for an outdated version of the document are thrown away
+    if (document.version === version && !document.isClosed) {
+      this.collection.set(document.uri, diagnostics);
+    }
+  }
+}
+
+// *** Utilities ***
+
+function parseResc(document: vscode.TextDocument): RescStatement[] {
+  const statements: RescStatement[] = [];
+  const tokenPattern =
+    /"""[\s\S]*?"""|"""|@"[^"]*"?|"(?:[^"\\]|\\.)*"?|'[^']*'?|#.*$|[^\s"'#]+/g;
+  let inMultilineString = false;
+
+  for (let line = 0; line < document.lineCount; line++) {
+    const text = document.lineAt(line).text;
+    if (inMultilineString) {
+      inMultilineString = !text.includes('"""');
+      continue;
+    }
+
+    const tokens: RescToken[] = [];
+    for (const match of text.matchAll(tokenPattern)) {
+      if (match[0].startsWith('#')) {
+        break;
+      }
+      if (match[0] === '"""') {
+        inMultilineString = true;
+        break;
+      }
+      const start = match.index!;
+      tokens.push({
+        text: match[0],
+        range: new vscode.Range(line, start, line, start + match[0].length),
+      });
+    }
+    if (tokens.length > 0) {
+      statements.push({ tokens });
+    }
+  }
+  return statements;
+}
+
+export function isKnownCommand(
+  name: string,
+  next: string | undefined,
+  peripherals: string[],
+): boolean {
+  return (
+    findMonitorCommand(name) !== undefined ||
+    MONITOR_OBJECTS.some(o => o.name === name) ||
+    // Variable assignment or expansion
+    name.startsWith('$') ||
+    // Peripheral paths and accesses to peripheral members, e.g. `cpu PC 0x0`,
+    // cannot be validated without knowing the platform
+    name.includes('.') ||
+    /^[A-Z]/.test(next ?? '') ||
+    peripherals.some(path => path === name || path.endsWith(`.${name}`))
+  );
+}
+
+function collectVariables(document: vscode.TextDocument): string[] {
+  const names = new Set<string>();
+  const patterns = [
+    /^\s*\$(\w+)\s*\??=/gm,
+    /^\s*set\s+(\w+)/gm,
+    /^\s*macro\s+(\w+)/gm,
+  ];
+  const text = document.getText();
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      names.add(match[1]);
+    }
+  }
+  names.add('ORIGIN');
+  return [...names];
+}
+
+// Returns the path referenced by an `@` token, if it can be checked locally
+function fileReference(
+  token: string,
+  document: vscode.TextDocument,
+): string | undefined {
+  if (!token.startsWith('@')) {
+    return undefined;
+  }
+
+  let path = token.slice(1).replace(/^"|"$/g, '');
+  // Renode resolves `$ORIGIN` to the directory of the script
+  if (path.startsWith('$ORIGIN')) {
+    const dir = vscode.Uri.joinPath(document.uri, '..').path;
+    path = dir + path.slice('$ORIGIN'.length);
+  }
+  // Other variables and remote files are only known to Renode
+  if (path === '' || path.includes('$') || /^\w+:\/\//.test(path)) {
+    return undefined;
+  }
+  return path;
+}
@@ -0,0 +1,325 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+export interface MonitorCommand {
+  name: string;
+  aliases?: string[];
+  usage: string;
+  description: string;
+}
+
+export interface MonitorObjectMember {
+  name: string;
+  usage: string;
+  description: string;
+}
+
+// Objects that are always available in the monitor, on top of the machine's peripherals
+export interface MonitorObject {
+  name: string;
+  description: string;
+  members: MonitorObjectMember[];
+}
+
+export const MONITOR_COMMANDS: MonitorCommand[] = [
+  {
+    name: 'include',
+    aliases: ['i'],
+    usage: 'include @path',
+    description:
+      'Loads a Monitor script (`.resc`), Python script (`.py`) or C# source (`.cs`).',
+  },
+  {
+    name: 'mach',
+    usage: 'mach [create [name] | set name | rem name | clear]',
+    description: 'Manages machines and selects the current one.',
+  },
+  {
+    name: 'start',
+    aliases: ['s'],
+    usage: 'start',
+    description: 'Starts the emulation.',
+  },
+  {
+    name: 'pause',
+    aliases: ['p'],
+    usage: 'pause',
+    description: 'Pauses the emulation.',
+  },
+  {
+    name: 'quit',
+    aliases: ['q'],
+    usage: 'quit',
+    description: 'Quits Renode.',
+  },
+  {
+    name: 'help',
+    aliases: ['h', '?'],
+    usage: 'help [command]',
+    description: 'Prints the list of commands or help for a single command.',
+  },
+  {
+    name: 'macro',
+    usage: 'macro name\n"""\ncommands\n"""',
+    description: 'Defines a macro, which can be run with `runMacro $name`.',
+  },
+  {
+    name: 'runMacro',
+    usage: 'runMacro $name',
+    description: 'Runs a macro defined with `macro`.',
+  },
+  {
+    name: 'set',
+    usage: 'set name "value"',
+    description:
+      'Sets a variable, which can be referenced as `$name`. Equivalent to `$name = "value"`.',
+  },
+  {
+    name: 'using',
+    usage: 'using prefix',
+    description:
+      'Adds a prefix used when resolving peripheral names, e.g. `using sysbus`.',
+  },
+  {
+    name: 'alias',
+    usage: 'alias name "command"',
+    description: 'Defines an alias for a command.',
+  },
+  {
+    name: 'path',
+    usage: 'path [add @directory | set @directory | reset]',
+    description: 'Manages the search path for files referenced with `@`.',
+  },
+  {
+    name: 'log',
+    usage: 'log "message" [level]',
+    description: 'Writes a message to the log.',
+  },
+  {
+    name: 'logLevel',
+    usage: 'logLevel level [peripheral]',
+    description:
+      'Sets the log level (-1 NOISY, 0 DEBUG, 1 INFO, 2 WARNING, 3 ERROR) globally or for a peripheral.',
+  },
+  {
+    name: 'logFile',
+    usage: 'logFile @path [flush]',
+    description: 'Writes the log to a file.',
+  },
+  {
+    name: 'lastLog',
+    usage: 'lastLog [count]',
+    description: 'Prints the most recent log entries.',
+  },
+  {
+    name: 'showAnalyzer',
+    usage: 'showAnalyzer [name] peripheral [type]',
+    description: 'Opens an analyzer window for a peripheral, e.g. a UART.',
+  },
+  {
+    name: 'analyzers',
+    usage: 'analyzers peripheral',
+    description: 'Lists analyzers available for a peripheral.',
+  },
+  {
+    name: 'peripherals',
+    usage: 'peripherals',
+    description: 'Prints the peripherals of the current machine.',
+  },
+  {
+    name: 'execute',
+    aliases: ['e'],
+    usage: 'execute $variable',
+    description: 'Executes the commands stored in a variable.',
+  },
+  {
+    name: 'python',
+    aliases: ['py'],
+    usage: 'python "code"',
+    description: 'Executes Python code.',
+  },
+  {
+    name: 'watch',
+    usage: 'watch "command" interval',
+    description: 'Runs a command periodically.',
+  },
+  {
+    name: 'require',
+    usage: 'require variable "message"',
+    description: 'Fails the script with the message if the variable is unset.',
+  },
+  {
+    name: 'numbersMode',
+    usage: 'numbersMode [Hexadecimal | Decimal | Both]',
+    description: 'Sets how numbers are printed.',
+  },
+  {
+    name: 'verboseMode',
+    usage: 'verboseMode [true | false]',
+    description: 'Toggles printing of additional information.',
+  },
+  {
+    name: 'allowPrivates',
+    usage: 'allowPrivates [true | false]',
+    description: 'Allows accessing private members of peripherals.',
+  },
+  {
+    name: 'createPlatform',
+    usage: 'createPlatform name [machine]',
+    description: 'Creates a machine from a predefined platform.',
+  },
+  {
+    name: 'version',
+    usage: 'version',
+    description: 'Prints the Renode version.',
+  },
+  {
+    name: 'string',
+    usage: 'string @path',
+    description: 'Prints the contents of a file.',
+  },
+];
+
+export const MONITOR_OBJECTS: MonitorObject[] = [
+  {
+    name: 'emulation',
+    description: 'The emulation, shared by all machines.',
+    members: [
+      {
+        name: 'RunFor',
+        usage: 'emulation RunFor "hh:mm:ss"',
+        description: 'Runs the emulation for the given virtual time.',
+      },
+      {
+        name: 'SetGlobalQuantum',
+        usage: 'emulation SetGlobalQuantum "0.0001"',
+        description: 'Sets the time quantum of machine synchronization.',
+      },
+      {
+        name: 'SetGlobalSerialExecution',
+        usage: 'emulation SetGlobalSerialExecution true',
+        description: 'Executes machines one after another.',
+      },
+      {
+        name: 'GetTimeSourceInfo',
+        usage: 'emulation GetTimeSourceInfo',
+        description: 'Prints the elapsed virtual time and the quantum.',
+      },
+      {
+        name: 'CreateServerSocketTerminal',
+        usage: 'emulation CreateServerSocketTerminal port "name" [emitConfig]',
+        description: 'Creates a terminal accessible over a TCP socket.',
+      },
+      {
+        name: 'CreateUartPtyTerminal',
+        usage: 'emulation CreateUartPtyTerminal "name" "/tmp/uart"',
+        description: 'Creates a terminal exposed as a pseudo-terminal.',
+      },
+      {
+        name: 'CreateSwitch',
+        usage: 'emulation CreateSwitch "name"',
+        description: 'Creates a network switch.',
+      },
+      {
+        name: 'CreateWirelessMedium',
+        usage: 'emulation CreateWirelessMedium "name"',
+        description: 'Creates a wireless medium.',
+      },
+    ],
+  },
+  {
+    name: 'machine',
+    description: 'The current machine, selected with `mach`.',
+    members: [
+      {
+        name: 'LoadPlatformDescription',
+        usage: 'machine LoadPlatformDescription @platform.repl',
+        description: 'Creates peripherals from a platform description.',
+      },
+      {
+        name: 'LoadPlatformDescriptionFromString',
+        usage: 'machine LoadPlatformDescriptionFromString "description"',
+        description: 'Creates peripherals from an inline platform description.',
+      },
+      {
+        name: 'StartGdbServer',
+        usage: 'machine StartGdbServer port [autostartEmulation] [cpuCluster]',
+        description: 'Starts a GDB server for the machine.',
+      },
+      {
+        name: 'StopGdbServer',
+        usage: 'machine StopGdbServer',
+        description: 'Stops the GDB server of the machine.',
+      },
+      {
+        name: 'Reset',
+        usage: 'machine Reset',
+        description: 'Resets the machine.',
+      },
+      {
+        name: 'Pause',
+        usage: 'machine Pause',
+        description: 'Pauses the machine.',
+      },
+      {
+        name: 'Start',
+        usage: 'machine Start',
+        description: 'Starts the machine.',
+      },
+      {
+        name: 'EnableProfiler',
+        usage: 'machine EnableProfiler @output',
+        description: 'Records a profiler trace of the machine.',
+      },
+    ],
+  },
+  {
+    name: 'sysbus',
+    description: 'The system bus of the current machine.',
+    members: [
+      {
+        name: 'LoadELF',
+        usage: 'sysbus LoadELF @binary.elf',
+        description: 'Loads an ELF file and sets the PC to its entry point.',
+      },
+      {
+        name: 'LoadBinary',
+        usage: 'sysbus LoadBinary @binary.bin address',
+        description: 'Loads a raw binary at the given address.',
+      },
+      {
+        name: 'LoadUF2',
+        usage: 'sysbus LoadUF2 @binary.uf2',
+        description: 'Loads a UF2 file.',
+      },
+      {
+        name: 'Tag',
+        usage: 'sysbus Tag <address, size> "name" [defaultValue]',
+        description: 'Names an unimplemented memory range.',
+      },
+      {
+        name: 'LogPeripheralAccess',
+        usage: 'sysbus LogPeripheralAccess peripheral [true]',
+        description: 'Logs all accesses to a peripheral.',
+      },
+      {
+        name: 'ReadDoubleWord',
+        usage: 'sysbus ReadDoubleWord address',
+        description: 'Reads 4 bytes from the bus.',
+      },
+      {
+        name: 'WriteDoubleWord',
+        usage: 'sysbus WriteDoubleWord address value',
+        description: 'Writes 4 bytes to the bus.',
+      },
+    ],
+  },
+];
+
+// Looks up a command by its name or one of its aliases
+export function findMonitorCommand(name: string): MonitorCommand | undefined {
+  return MONITOR_COMMANDS.find(
+    command => command.name === name || command.aliases?.includes(name),
+  );
+}
@@ -0,0 +1,114 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+
+const DEFAULT_URI = 'ws://127.0.0.1:21234';
+export const DEFAULT_PROFILE_NAME = 'default';
+
+// Connection settings for a single Renode server, configured in `renode.profiles`
+export interface RenodeProfile {
+  name: string;
+  uri: string;
+  // Subdirectory the session will connect to, same as `renode.workspace`
+  workspace: string;
+  // Time in milliseconds after which a single connection attempt is abandoned
+  connectTimeout: number;
+  connectRetries: number;
+  // Time in milliseconds between connection attempts
+  retryDelay: number;
+}
+
+// Builds a profile for `uri` using the global settings for everything else
+export function makeProfile(name: string, uri: string): RenodeProfile {
+  const cfg = vscode.workspace.getConfiguration('renode');
+  return {
+    name,
+    uri,
+    workspace: cfg.get<string>('workspace') ?? '',
+    connectTimeout: cfg.get<number>('connectTimeout') ?? 10000,
+    connectRetries: cfg.get<number>('connectRetries') ?? 5,
+    retryDelay: cfg.get<number>('connectRetryDelay') ?? 1000,
+  };
+}
+
+// Returns all configured profiles, the first one is always the default profile.
+// A profile named `default` in `renode.profiles` overrides `renode.defaultSessionUri`.
+export function getProfiles(): RenodeProfile[] {
+  const cfg = vscode.workspace.getConfiguration('renode');
+  const configured = cfg.get<Partial<RenodeProfile>[]>('profiles') ?? [];
+
+  const profiles = [
+    makeProfile(
+      DEFAULT_PROFILE_NAME,
+      cfg.get<string>('defaultSessionUri') ?? DEFAULT_URI,
+    ),
+  ];
+  for (const entry of configured) {
+    if (!entry.name || !entry.uri) {
+      console.error('Ignoring Renode profile without a name or uri', entry);
+      continue;
+    }
+
+    const profile = {
+      ...makeProfile(entry.name, entry.uri),
+      ...entry,
+    } as RenodeProfile;
+    const idx = profiles.findIndex(p => p.name === profile.name);
+    if (idx === -1) {
+      profiles.push(profile);
+    } else {
+      profiles[idx] = profile;
+    }
+  }
+  return profiles;
+}
+
+function tokenKey(profileName: string): string {
+  return `renode.profile.${profileName}.token`;
+}
+
+export async function getProfileToken(
+  secrets: vscode.SecretStorage,
+  profileName: string,
+): Promise<string | undefined> {
+  return secrets.get(tokenKey(profileName));
+}
+
+export async function setProfileToken(
+  secrets: vscode.SecretStorage,
+  profileName: string,
+  token: string | undefined,
+): Promise<void> {
+  if (token === undefined || token === '') {
+    return secrets.delete(tokenKey(profileName));
+  }
+  return secrets.store(tokenKey(profileName), token);
+}
+
+// The token is sent as the password part of the URI, as browsers do not allow setting
+// headers for WebSocket connections. Such URIs are only used to open connections,
+// so that the token does not end up in URIs which are kept or displayed.
+export function withToken(uri: string, token?: string): string {
+  if (!token) {
+    return uri;
+  }
+  return setCredentials(uri, 'token', token);
+}
+
+export function withoutToken(uri: string): string {
+  return setCredentials(uri, '', '');
+}
+
+function setCredentials(uri: string, username: string, password: string) {
+  const url = new URL(uri);
+  url.username = username;
+  url.password = password;
+  let result = url.toString();
+  // URL adds a trailing slash, but the session base is used as a prefix for other paths
+  if (!uri.endsWith('/') && result.endsWith('/')) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
@@ -3,14 +3,56 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import * as vscode from 'vscode';
+import WebSocket from 'isomorphic-ws';
 import { RenodePluginContext, INITIAL_PORT } from '../context';
+import { TerminalDisplayMode, getRenodePseudoterminal } from '../console';
+
+// Loopback TCP port or host pseudo-terminal forwarding to a UART
+export type UartBridgeKind = 'tcp' | 'pty';
+
+export interface UartBridge extends vscode.Disposable {
+  // Where external tools connect to, e.g. `127.0.0.1:4321` or `/dev/pts/5`
+  readonly address: string;
+  // Fired when the UART disconnects, e.g. as the simulation stops
+  readonly onDidClose: vscode.Event<void>;
+}
+
+// Creates bridges, given only by the desktop version of the extension
+export interface UartBridgeProvider {
+  readonly kinds: UartBridgeKind[];
+  // Takes over the UART socket, which is closed along with the bridge.
+  // Port 0, or none, picks any free one.
+  create(
+    uart: WebSocket,
+    kind: UartBridgeKind,
+    port?: number,
+  ): Promise<UartBridge>;
+}
+
+interface ActiveUartBridge {
+  machine: string;
+  uart: string;
+  kind: UartBridgeKind;
+  bridge: UartBridge;
+}
+
+const BRIDGE_KIND_LABELS: Record<UartBridgeKind, string> = {
+  tcp: 'TCP port',
+  pty: 'Pseudo-terminal',
+};
+
+const uartBridges: ActiveUartBridge[] = [];
 
 export function registerConsoleCommands(
   subscriptions: any[],
   pluginCtx: RenodePluginContext,
+  bridgeProvider?: UartBridgeProvider,
 ) {
   pluginCtx.onUartOpened(args => {
-    pluginCtx.createTerminal(`${args.name} (${args.machineName})`, args.port);
+    args.session.createTerminal(
+      `${args.name} (${args.machineName})`,
+      args.port,
+    );
   });
 
   const uartCommand = vscode.commands.registerCommand(
@@ -25,16 +67,272 @@ export function registerConsoleCommands(
   );
   subscriptions.push(allUartsCommand);
 
-  const logsCommand = vscode.commands.registerCommand('renode.openLogs', () =>
-    openLogsConsoleCommandHandler(INITIAL_PORT, pluginCtx),
-  );
-  subscriptions.push(logsCommand);
-
   const monitorCommand = vscode.commands.registerCommand(
     'renode.openMonitor',
     () => openMonitorCommandHandler(INITIAL_PORT - 1, pluginCtx),
   );
   subscriptions.push(monitorCommand);
+
+  const orphanedSocketsCommand = vscode.commands.registerCommand(
+    'renode.closeOrphanedUartSockets',
+    () => closeOrphanedUartSocketsCommandHandler(pluginCtx),
+  );
+  subscriptions.push(orphanedSocketsCommand);
+
+  const displayModeCommand = vscode.commands.registerCommand(
+    'renode.setTerminalDisplayMode',
+    () => setTerminalDisplayModeCommandHandler(),
+  );
+  subscriptions.push(displayModeCommand);
+
+  const startBridgeCommand = vscode.commands.registerCommand(
+    'renode.startUartBridge',
+    () => startUartBridgeCommandHandler(pluginCtx, bridgeProvider),
+  );
+  subscriptions.push(startBridgeCommand);
+
+  const showBridgesCommand = vscode.commands.registerCommand(
+    'renode.showUartBridges',
+    () => showUartBridgesCommandHandler(),
+  );
+  subscriptions.push(showBridgesCommand);
+
+  // Terminal menu entries of the extension are only shown for its own terminals
+  const updateTerminalContext = (terminal?: vscode.Terminal) =>
+    vscode.commands.executeCommand(
+      'setContext',
+      'renode.renodeTerminalActive',
+      terminal !== undefined && getRenodePseudoterminal(terminal) !== undefined,
+    );
+  updateTerminalContext(vscode.window.activeTerminal);
+  subscriptions.push(
+    vscode.window.onDidChangeActiveTerminal(updateTerminalContext),
+  );
+
+  subscriptions.push({
+    // Bridges remove themselves from the list once closed
+    dispose: () => [...uartBridges].forEach(({ bridge }) => bridge.dispose()),
+  });
+}
+
+async function startUartBridgeCommandHandler(
+  pluginCtx: RenodePluginContext,
+  bridgeProvider?: UartBridgeProvider,
+) {
+  if (bridgeProvider === undefined) {
+    vscode.window.showErrorMessage(
+      'Exposing UARTs to the host is only possible in the desktop version',
+    );
+    return;
+  }
+  if (!renodeRunning(pluginCtx)) {
+    vscode.window.showErrorMessage('Renode not connected!');
+    return;
+  }
+
+  try {
+    const machines = await pluginCtx.getMachines();
+    const uarts = (
+      await Promise.all(
+        machines.map(async machine =>
+          (await pluginCtx.getUarts(machine)).map(uart => ({
+            label: uart,
+            description: machine,
+            machine,
+          })),
+        ),
+      )
+    ).flat();
+    const picked = await vscode.window.showQuickPick(uarts, {
+      title: 'UART to expose to the host',
+    });
+    if (picked === undefined) {
+      return;
+    }
+
+    const kind =
+      bridgeProvider.kinds.length === 1
+        ? bridgeProvider.kinds[0]
+        : (
+            await vscode.window.showQuickPick(
+              // `kind` of quick pick items tells separators apart
+              bridgeProvider.kinds.map(bridgeKind => ({
+                label: BRIDGE_KIND_LABELS[bridgeKind],
+                bridgeKind,
+              })),
+              { title: `Expose ${picked.label} (${picked.machine}) as` },
+            )
+          )?.bridgeKind;
+    if (kind === undefined) {
+      return;
+    }
+
+    let port: number | undefined;
+    if (kind === 'tcp') {
+      const input = await vscode.window.showInputBox({
+        title: 'Port to listen on, on 127.0.0.1',
+        prompt: 'Leave empty to use any free port',
+        validateInput: value =>
+          value === '' || /^\d+$/.test(value)
+            ? undefined
+            : 'Expected a port number',
+      });
+      if (input === undefined) {
+        return;
+      }
+      port = input === '' ? undefined : Number(input);
+    }
+
+    const socket = await pluginCtx.activeSession.connectUart(
+      picked.machine,
+      picked.label,
+    );
+    const bridge = await bridgeProvider.create(socket, kind, port);
+    const active: ActiveUartBridge = {
+      machine: picked.machine,
+      uart: picked.label,
+      kind,
+      bridge,
+    };
+    uartBridges.push(active);
+    bridge.onDidClose(() => {
+      const index = uartBridges.indexOf(active);
+      if (index !== -1) {
+        uartBridges.splice(index, 1);
+      }
+    });
+
+    const copy = 'Copy';
+    const choice = await vscode.window.showInformationMessage(
+      `${picked.label} (${picked.machine}) is available at ${bridge.address}`,
+      copy,
+    );
+    if (choice === copy) {
+      vscode.env.clipboard.writeText(bridge.address);
+    }
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to expose the UART: ${err}`);
+  }
+}
+
+// Lists the bridges, with a button stopping each of them
+async function showUartBridgesCommandHandler() {
+  if (uartBridges.length === 0) {
+    vscode.window.showInformationMessage('No UARTs are exposed to the host');
+    return;
+  }
+
+  const stopButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('debug-stop'),
+    tooltip: 'Stop',
+  };
+  const items = () =>
+    uartBridges.map(active => ({
+      label: `${active.uart} (${active.machine})`,
+      description: active.bridge.address,
+      detail: BRIDGE_KIND_LABELS[active.kind],
+      buttons: [stopButton],
+      active,
+    }));
+
+  const quickPick =
+    vscode.window.createQuickPick<ReturnType<typeof items>[number]>();
+  quickPick.title = 'UARTs exposed to the host, pick one to copy its address';
+  quickPick.items = items();
+  quickPick.onDidTriggerItemButton(({ item }) => {
+    item.active.bridge.dispose();
+    quickPick.items = items();
+    if (uartBridges.length === 0) {
+      quickPick.hide();
+    }
+  });
+  quickPick.onDidAccept(() => {
+    const [selected] = quickPick.selectedItems;
+    if (selected !== undefined) {
+      vscode.env.clipboard.writeText(selected.active.bridge.address);
+    }
+    quickPick.hide();
+  });
+  quickPick.onDidHide(() => quickPick.dispose());
+  quickPick.show();
+}
+
+async function setTerminalDisplayModeCommandHandler() {
+  const terminal = vscode.window.activeTerminal;
+  const pty = terminal && getRenodePseudoterminal(terminal);
+  if (pty === undefined) {
+    vscode.window.showErrorMessage('The active terminal is not a Renode one');
+    return;
+  }
+
+  const modes: {
+    label: string;
+    detail: string;
+    mode: TerminalDisplayMode;
+  }[] = [
+    { label: 'UTF-8', detail: 'Text, as sent by most programs', mode: 'utf-8' },
+    {
+      label: 'Latin-1',
+      detail: 'Text, with each byte being a character',
+      mode: 'latin1',
+    },
+    {
+      label: 'Hex',
+      detail: 'Bytes in hex, input is taken as hex bytes as well',
+      mode: 'hex',
+    },
+    {
+      label: 'Hex and ASCII',
+      detail:
+        'Bytes in hex along with their printable characters, input is taken as hex bytes',
+      mode: 'hex-ascii',
+    },
+  ];
+  const picked = await vscode.window.showQuickPick(
+    modes.map(m => ({
+      ...m,
+      description: m.mode === pty.displayMode ? 'current' : undefined,
+    })),
+    { title: `Display mode of ${terminal!.name}` },
+  );
+  if (picked !== undefined) {
+    pty.setDisplayMode(picked.mode);
+  }
+}
+
+async function closeOrphanedUartSocketsCommandHandler(
+  pluginCtx: RenodePluginContext,
+) {
+  if (!renodeRunning(pluginCtx)) {
+    vscode.window.showErrorMessage('Renode not connected!');
+    return;
+  }
+
+  const ports = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Looking for UART sockets',
+    },
+    () => pluginCtx.findOrphanedUartSockets(),
+  );
+  if (ports.length === 0) {
+    vscode.window.showInformationMessage('There are no orphaned UART sockets');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    ports.map(port => ({ label: `sst-${port}`, picked: true, port })),
+    {
+      canPickMany: true,
+      title: 'UART sockets to close',
+    },
+  );
+  if (picked === undefined) {
+    return;
+  }
+  for (const { port } of picked) {
+    await pluginCtx.removeUartSocket(port);
+  }
 }
 
 async function openMonitorCommandHandler(
@@ -104,18 +402,6 @@ async function openUartConsoleCommandHandler(pluginCtx: RenodePluginContext) {
   await pluginCtx.createUARTTerminal(machineName, uartName);
 }
 
-function openLogsConsoleCommandHandler(
-  logsPort: number,
-  pluginCtx: RenodePluginContext,
-) {
-  if (!renodeRunning(pluginCtx)) {
-    vscode.window.showErrorMessage('Renode not connected!');
-    return;
-  }
-
-  pluginCtx.createTerminal('Renode', logsPort, true);
-}
-
 function renodeRunning(pluginCtx: RenodePluginContext): boolean {
-  return pluginCtx.socketReady && pluginCtx.isDebugging;
+  return pluginCtx.emulationActive;
 }
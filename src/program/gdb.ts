@@ -6,11 +6,20 @@ import { DebugProtocol } from '@vscode/debugprotocol';
 import { MI2DebugSession, RunCommand } from '../code-debug/mibase';
 import { MI2 } from '../code-debug/backend/mi2/mi2';
 import * as vscode from 'vscode';
-import { createRenodeWebSocketTerminal } from '../console';
+import { createRenodeWebSocketTerminal, terminalsKeptOpen } from '../console';
 import { RenodePluginContext } from '../context';
+import { RenodeSession, RenodeState, RenodeStateChangeEvent } from '../session';
 import { URL } from 'url';
 import path from 'path';
-import { TerminatedEvent } from '@vscode/debugadapter';
+import { StoppedEvent, TerminatedEvent } from '@vscode/debugadapter';
+import { LOAD_SNAPSHOT_REQUEST, LoadSnapshotArguments } from './snapshotsView';
+import {
+  RESOLVE_ADDRESS_REQUEST,
+  ResolveAddressArguments,
+  SourceLine,
+} from './logDiagnostics';
+import { logLevelCommands } from './logLevels';
+import { recordingUri, startUartRecording } from './uartRecording';
 
 function randomPort(): number {
   const min = 10_000;
@@ -22,9 +31,11 @@ function randomPort(): number {
   return Math.floor(r);
 }
 
-interface PeripheralHint {
+export interface PeripheralHint {
   machine?: string;
   name: string;
+  // Records the output of the UART, see `recordingUri`
+  record?: true | string;
 }
 
 export interface LaunchRequestArguments
@@ -37,18 +48,72 @@ export interface LaunchRequestArguments
   pathMappings?: object;
   terminals?: (string | PeripheralHint)[];
   extraMonitorCommands?: string[];
+  // Log levels by peripheral path, `*` sets the level of all of them
+  logLevels?: Record<string, string>;
   cpuCluster?: string;
   // TODO: Work on autodetection
   remoteSession?: boolean;
 }
 
+// Attaches to a simulation that is already running in the active session
+export interface AttachRequestArguments
+  extends DebugProtocol.AttachRequestArguments {
+  elf: string;
+  cwd: string;
+  gdb?: string;
+  pathMappings?: object;
+  cpuCluster?: string;
+  // Needed if there is more than one machine
+  machine?: string;
+  remoteSession?: boolean;
+}
+
+// Opens a terminal for a UART given by name, the machine can be omitted if there is only one
+export async function openNamedUartTerminal(
+  renode: RenodeSession,
+  terminal: PeripheralHint,
+): Promise<vscode.Terminal> {
+  const machines = await renode.getMachines();
+  if ('machine' in terminal && terminal.machine) {
+    if (machines.find(m => m === terminal.machine) === undefined) {
+      throw new Error(`machine '${terminal.machine} does not exist`);
+    }
+  } else {
+    if (machines.length !== 1) {
+      throw new Error(`multiple machine options for UART '${terminal.name}'`);
+    }
+    terminal.machine = machines[0];
+  }
+
+  const uarts = await renode.getUarts(terminal.machine);
+  if (uarts.find(u => u === terminal.name) === undefined) {
+    throw new Error(
+      `UART '${terminal.name}' is not a part of machine '${terminal.machine}'`,
+    );
+  }
+
+  return renode.createUARTTerminal(terminal.machine, terminal.name);
+}
+
 export class RenodeGdbDebugSession extends MI2DebugSession {
   private output?: vscode.OutputChannel;
   private mappings: [string, string][] = [];
+  // Relative source paths reported by GDB are resolved against it
+  private cwd = '';
   private terminals: vscode.Terminal[] = [];
   private renodeStarted = false;
   private disposables: vscode.Disposable[] = [];
   private interruptedLaunch: boolean = false;
+  // Renode session this debugger was launched in, pinned so switching the active session does not affect it
+  private renodeSession?: RenodeSession;
+  // Needed to restart the GDB server after the machines get replaced
+  private gdbServerCommand?: string;
+  private gdbPort?: number;
+  // Selects the machine the GDB server belongs to
+  private machineCommands: string[] = [];
+  // Console output of the command run by `captureCliOutput`
+  private capturedOutput?: string[];
+  private captureQueue: Promise<unknown> = Promise.resolve();
 
   constructor(
     private pluginCtx: RenodePluginContext,
@@ -104,82 +169,139 @@ export class RenodeGdbDebugSession extends MI2DebugSession {
   }
 
   private async launchRequestInner(args: LaunchRequestArguments) {
-    if (this.pluginCtx.isDebugging) {
+    const renode = this.pluginCtx.activeSession;
+    if (renode.emulationActive) {
       throw new Error('Only one debugging session is supported');
     }
+    this.renodeSession = renode;
 
     vscode.window.showInformationMessage('Starting Renode');
     const isRemote = args.remoteSession ?? false;
 
-    this.pluginCtx.isDebugging = true;
-
     let monitorCommands = args.extraMonitorCommands ?? [];
 
     // This is where connection to server happens if it wasn't established before
-    await this.pluginCtx.startRenode().catch(() => {
+    await renode.startRenode().catch(() => {
       throw new Error('Renode did not start');
     });
 
     // Disconnect handling needs to be added after we ensured that connection is established
-    this.pluginCtx.onPreDisconnect(
-      this.terminateSession,
-      this,
-      this.disposables,
-    );
+    renode.onDidChangeState(this.onRenodeStateChange, this, this.disposables);
 
     this.terminals = await Promise.all(
-      this.handleTerminals(args.terminals ?? []),
+      this.handleTerminals(renode, args.terminals ?? [], args.cwd),
     );
 
     if (args.resc) {
       let resc = args.resc;
       if (isRemote) {
-        const resp = await this.pluginCtx.sendFileFromPath(args.resc);
+        const resp = await renode.sendFileFromPath(args.resc);
         resc = resp.path;
       } else if (!path.isAbsolute(resc)) {
         resc = path.join(args.cwd, resc);
       }
       monitorCommands = [...monitorCommands, `i @${resc}`];
     }
+    // Applied once the script created the machine
+    monitorCommands = [
+      ...monitorCommands,
+      ...logLevelCommands(args.logLevels ?? {}),
+    ];
 
     if (args.repl) {
       let repl = args.repl;
       if (isRemote) {
-        const resp = await this.pluginCtx.sendFileFromPath(args.repl);
+        const resp = await renode.sendFileFromPath(args.repl);
         repl = resp.path;
       }
     }
 
-    let elf = args.elf;
-    if (isRemote) {
-      const resp = await this.pluginCtx.sendFileFromPath(args.elf);
-      elf = resp.path;
-    } else if (!path.isAbsolute(elf)) {
-      elf = path.join(args.cwd, elf);
-    }
-
+    const elf = await this.resolveElf(renode, args, isRemote);
     const gdbPort = randomPort();
-    monitorCommands = [
-      ...monitorCommands,
-      `machine StartGdbServer ${gdbPort} True ${JSON.stringify(args.cpuCluster ?? 'all')}`,
-    ];
+    this.gdbPort = gdbPort;
+    this.gdbServerCommand = `machine StartGdbServer ${gdbPort} True ${JSON.stringify(args.cpuCluster ?? 'all')}`;
+    monitorCommands = [...monitorCommands, this.gdbServerCommand];
 
-    await this.pluginCtx.execMonitor(monitorCommands).catch(() => {
+    await renode.execMonitor(monitorCommands).catch(() => {
       throw new Error('Renode did not execute initial commands');
     });
+    // The script does not tell which machine the GDB server was started for,
+    // unless there is only one
+    const machines = await renode.getMachines();
+    if (machines.length === 1) {
+      this.machineCommands = [`mach set ${JSON.stringify(machines[0])}`];
+    }
 
     this.renodeStarted = true;
     vscode.window.showInformationMessage('Renode started');
+    await this.connectDebugger(renode, args, elf, gdbPort, isRemote);
+  }
+
+  private async attachRequestInner(args: AttachRequestArguments) {
+    const renode = this.pluginCtx.activeSession;
+    if (!renode.emulationActive) {
+      throw new Error('There is no simulation to attach to');
+    }
+    this.renodeSession = renode;
+    renode.onDidChangeState(this.onRenodeStateChange, this, this.disposables);
+
+    const isRemote = args.remoteSession ?? !renode.isLocal;
+    const elf = await this.resolveElf(renode, args, isRemote);
+    const gdbPort = randomPort();
+    this.gdbPort = gdbPort;
+    this.gdbServerCommand = `machine StartGdbServer ${gdbPort} True ${JSON.stringify(args.cpuCluster ?? 'all')}`;
+    this.machineCommands = args.machine
+      ? [`mach set ${JSON.stringify(args.machine)}`]
+      : [];
+
+    await renode
+      .execMonitor([...this.machineCommands, this.gdbServerCommand])
+      .catch(() => {
+        throw new Error('Renode did not start the GDB server');
+      });
+
+    // Attached to a simulation started by someone else, which is left running when detaching
+    this.attached = true;
+    await this.connectDebugger(renode, args, elf, gdbPort, isRemote);
+  }
+
+  private async resolveElf(
+    renode: RenodeSession,
+    args: LaunchRequestArguments | AttachRequestArguments,
+    isRemote: boolean,
+  ): Promise<string> {
+    if (isRemote) {
+      const resp = await renode.sendFileFromPath(args.elf);
+      return resp.path;
+    }
+    return path.isAbsolute(args.elf) ? args.elf : path.join(args.cwd, args.elf);
+  }
+
+  private async connectDebugger(
+    renode: RenodeSession,
+    args: LaunchRequestArguments | AttachRequestArguments,
+    elf: string,
+    gdbPort: number,
+    isRemote: boolean,
+  ) {
     const gdbPath = this.getGdbPath(args.gdb);
     this.mappings = Object.entries(args.pathMappings ?? {});
+    this.cwd = args.cwd;
     this.miDebugger = new MI2(gdbPath, ['-q', '--interpreter=mi2'], [], null);
     this.initDebugger();
+    this.reportEmulationState(renode);
     this.setValuesFormattingMode('prettyPrinters');
     this.initialRunCommand = RunCommand.NONE;
-    const wsUri = new URL(`/run/${gdbPath}`, this.pluginCtx.sessionBase);
+    const wsUri = new URL(`/run/${gdbPath}`, renode.sessionBase);
 
     await this.miDebugger
-      .connectWs(args.cwd, elf, `:${gdbPort}`, wsUri.toString(), isRemote)
+      .connectWs(
+        args.cwd,
+        elf,
+        `:${gdbPort}`,
+        renode.withToken(wsUri.toString()),
+        isRemote,
+      )
       .catch(err => {
         throw new Error(`Failed to load debugger: ${err}`);
       });
@@ -202,7 +324,29 @@ export class RenodeGdbDebugSession extends MI2DebugSession {
       let err = e.message ?? e.toString();
       vscode.window.showErrorMessage(err);
       this.sendErrorResponse(response, 103, err);
-      this.pluginCtx.isDebugging = false;
+      // Do not leave a half-launched simulation behind, so that launching can be retried
+      if (this.renodeSession?.emulationActive) {
+        await this.renodeSession.stopRenode();
+      }
+    }
+  }
+
+  protected override async attachRequest(
+    response: DebugProtocol.AttachResponse,
+    args: AttachRequestArguments,
+  ) {
+    try {
+      this.interruptedLaunch = false;
+      await this.attachRequestInner(args);
+      if (this.interruptedLaunch) {
+        await this.disconnect();
+        throw Error('Attach interrupted');
+      }
+      this.sendResponse(response);
+    } catch (e: any) {
+      let err = e.message ?? e.toString();
+      vscode.window.showErrorMessage(err);
+      this.sendErrorResponse(response, 103, err);
     }
   }
 
@@ -215,6 +359,34 @@ export class RenodeGdbDebugSession extends MI2DebugSession {
     this.sendResponse(response);
   }
 
+  protected override async customRequest(
+    command: string,
+    response: DebugProtocol.Response,
+    args: any,
+  ): Promise<void> {
+    switch (command) {
+      case LOAD_SNAPSHOT_REQUEST:
+        try {
+          response.body = { handled: await this.loadSnapshot(args) };
+          this.sendResponse(response);
+        } catch (e: any) {
+          this.sendErrorResponse(response, 115, e.message ?? e.toString());
+        }
+        break;
+      case RESOLVE_ADDRESS_REQUEST:
+        try {
+          response.body = await this.resolveAddress(args);
+          this.sendResponse(response);
+        } catch (e: any) {
+          this.sendErrorResponse(response, 116, e.message ?? e.toString());
+        }
+        break;
+      default:
+        super.customRequest(command, response, args);
+        break;
+    }
+  }
+
   protected override async disassembleRequest(
     response: DebugProtocol.DisassembleResponse,
     args: DebugProtocol.DisassembleArguments,
@@ -260,6 +432,123 @@ export class RenodeGdbDebugSession extends MI2DebugSession {
     );
   }
 
+  private onRenodeStateChange(event: RenodeStateChangeEvent) {
+    switch (event.state) {
+      case RenodeState.CONNECTING: // Lost the connection and trying to reconnect
+      case RenodeState.DISCONNECTED:
+        this.terminateSession();
+        break;
+      case RenodeState.STOPPED:
+        // Stopped from outside of this debugging session
+        if (this.renodeStarted || this.attached) {
+          this.terminateSession();
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  // Keeps the session state in sync with the target state reported by GDB
+  private reportEmulationState(renode: RenodeSession) {
+    const stopEvents = [
+      'breakpoint',
+      'watchpoint',
+      'step-end',
+      'step-other',
+      'signal-stop',
+      'stopped',
+    ];
+    this.miDebugger!.on('running', () =>
+      renode.setEmulationState(RenodeState.RUNNING),
+    );
+    for (const event of stopEvents) {
+      this.miDebugger!.on(event, () =>
+        renode.setEmulationState(RenodeState.PAUSED),
+      );
+    }
+  }
+
+  // Returns false if the snapshot is meant for a different Renode session
+  private async loadSnapshot(args: LoadSnapshotArguments): Promise<boolean> {
+    const renode = this.renodeSession;
+    if (
+      !(this.renodeStarted || this.attached) ||
+      renode?.name !== args.session
+    ) {
+      return false;
+    }
+
+    if (this.machineCommands.length === 0) {
+      throw new Error(
+        'the machine debugged is not known, as there are multiple machines',
+      );
+    }
+
+    // The GDB server goes away along with the machines it was attached to
+    await this.miDebugger!.sendCommand('target-disconnect');
+    await renode.execMonitor([`Load @${args.path}`]);
+    await renode
+      .execMonitor([...this.machineCommands, this.gdbServerCommand!])
+      .catch(err => {
+        throw new Error(`Renode did not start the GDB server: ${err}`);
+      });
+    await this.miDebugger!.sendCommand(`target-select remote :${this.gdbPort}`);
+    renode.setEmulationState(RenodeState.PAUSED);
+
+    // Make the editor fetch the restored PC and stack
+    const event = new StoppedEvent('restore', 1);
+    (event as DebugProtocol.StoppedEvent).body.allThreadsStopped = true;
+    this.sendEvent(event);
+    return true;
+  }
+
+  // Finds the source line an address belongs to in the debugged binary
+  private async resolveAddress(
+    args: ResolveAddressArguments,
+  ): Promise<SourceLine | undefined> {
+    if (this.renodeSession?.name !== args.session) {
+      return undefined;
+    }
+    // e.g. `Line 42 of "src/main.c" starts at address 0x80001a4 <main+4> and ends at 0x80001a8 <main+8>.`
+    const output = await this.captureCliOutput(
+      `info line *${Number(args.address)}`,
+    );
+    const match = output.match(/^Line (\d+) of "(.+)"/m);
+    if (match === null) {
+      return undefined;
+    }
+    const file = this.convertDebuggerPathToClient(match[2]);
+    return {
+      path: path.isAbsolute(file) ? file : path.join(this.cwd, file),
+      line: Number(match[1]),
+    };
+  }
+
+  // Runs a CLI command for the extension itself, so that its output
+  // is returned instead of being shown in the Debug Console
+  private captureCliOutput(command: string): Promise<string> {
+    const run = this.captureQueue.then(async () => {
+      this.capturedOutput = [];
+      try {
+        await this.miDebugger!.sendCliCommand(command);
+        return this.capturedOutput.join('');
+      } finally {
+        this.capturedOutput = undefined;
+      }
+    });
+    this.captureQueue = run.catch(() => {});
+    return run;
+  }
+
+  protected override handleMsg(type: string, msg: string) {
+    if (type === 'console' && this.capturedOutput !== undefined) {
+      this.capturedOutput.push(msg);
+      return;
+    }
+    super.handleMsg(type, msg);
+  }
+
   protected terminateSession() {
     this.interruptedLaunch = true;
     this.sendEvent(new TerminatedEvent());
@@ -314,54 +603,49 @@ export class RenodeGdbDebugSession extends MI2DebugSession {
     return res;
   }
 
-  private async handleNamedUartTerminal(
-    terminal: PeripheralHint,
-  ): Promise<vscode.Terminal> {
-    const machines = await this.pluginCtx.getMachines();
-    if ('machine' in terminal && terminal.machine) {
-      if (machines.find(m => m === terminal.machine) === undefined) {
-        throw new Error(`machine '${terminal.machine} does not exist`);
-      }
-    } else {
-      if (machines.length !== 1) {
-        throw new Error(`multiple machine options for UART '${terminal.name}'`);
-      }
-      terminal.machine = machines[0];
-    }
-
-    const uarts = await this.pluginCtx.getUarts(terminal.machine);
-    if (uarts.find(u => u === terminal.name) === undefined) {
-      throw new Error(
-        `UART '${terminal.name}' is not a part of machine '${terminal.machine}'`,
-      );
-    }
-
-    return this.pluginCtx.createUARTTerminal(terminal.machine, terminal.name);
-  }
-
   private handleTerminals(
+    renode: RenodeSession,
     terminals: (string | PeripheralHint)[],
+    cwd: string,
   ): Promise<vscode.Terminal>[] {
     let i = 0;
-    return terminals.map(terminal => {
+    return terminals.map(async terminal => {
       if (typeof terminal === 'string') {
         return this.handleUrlTerminal(terminal, i++);
-      } else {
-        return this.handleNamedUartTerminal(terminal);
       }
+
+      const opened = await openNamedUartTerminal(renode, terminal);
+      if (terminal.record) {
+        // Failing to record should not prevent debugging
+        await startUartRecording(
+          renode,
+          opened,
+          recordingUri(renode, opened.name, terminal.record, cwd),
+        ).catch(err =>
+          vscode.window.showErrorMessage(
+            `Failed to record ${opened.name}: ${err}`,
+          ),
+        );
+      }
+      return opened;
     });
   }
 
   private async disconnect(): Promise<void> {
-    for (const terminal of this.terminals) {
-      terminal.dispose();
+    // Terminals kept open get reused by the next launch
+    if (!terminalsKeptOpen()) {
+      for (const terminal of this.terminals) {
+        terminal.dispose();
+      }
     }
     this.output?.dispose();
 
-    if (this.renodeStarted) {
+    const renodeStarted = this.renodeStarted;
+    // Cleared first, so that stopping Renode here is not taken for it being stopped from outside
+    this.renodeStarted = false;
+    if (renodeStarted) {
       vscode.window.showInformationMessage('Stopping Renode');
-      await this.pluginCtx
-        .stopRenode()
+      await this.renodeSession!.stopRenode()
         .then(() => {
           vscode.window.showInformationMessage('Renode stopped');
         })
@@ -372,8 +656,16 @@ export class RenodeGdbDebugSession extends MI2DebugSession {
 
     this.miDebugger?.detach();
 
-    this.renodeStarted = false;
-    this.pluginCtx.isDebugging = false;
+    if (this.attached) {
+      this.attached = false;
+      // Frees the machine for the next debugger to attach to it
+      await this.renodeSession!.execMonitor([
+        ...this.machineCommands,
+        'machine StopGdbServer',
+      ]).catch(() => {
+        // The machine might be gone already
+      });
+    }
   }
 
   public dispose() {
@@ -0,0 +1,276 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { RenodePluginContext } from '../context';
+import { RenodeState } from '../session';
+import { LogEntry, RenodeLogStream } from './logStream';
+
+export const RESOLVE_ADDRESS_REQUEST = 'renode-resolve-address';
+
+export interface ResolveAddressArguments {
+  // Renode session the address comes from
+  session: string;
+  address: string;
+}
+
+export interface SourceLine {
+  path: string;
+  // Starting from 1, as reported by GDB
+  line: number;
+}
+
+// Warnings of a session are listed in a virtual document, so that those
+// which cannot be tied to a source line have a place in the Problems panel
+const SUMMARY_SCHEME = 'renode-warnings';
+// Further distinct warnings are dropped, so that a misbehaving binary does not flood the editor
+const MAX_GROUPS = 1000;
+const PUBLISH_DELAY = 500;
+
+// Recurring warnings about the same peripheral and address
+interface WarningGroup {
+  entry: LogEntry;
+  count: number;
+  // Program counter of the CPU at the time of the first occurrence
+  pc?: string;
+  location?: vscode.Location;
+  resolving: boolean;
+}
+
+export function registerLogDiagnostics(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+  logStream: RenodeLogStream,
+) {
+  const diagnostics = new LogDiagnostics(pluginCtx, logStream);
+  subscriptions.push(
+    diagnostics,
+    vscode.workspace.registerTextDocumentContentProvider(
+      SUMMARY_SCHEME,
+      diagnostics,
+    ),
+  );
+}
+
+class LogDiagnostics
+  implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  public onDidChange: vscode.Event<vscode.Uri>;
+  private groups = new Map<string, WarningGroup>();
+  // Name of the session the warnings come from
+  private session?: string;
+  private collection: vscode.DiagnosticCollection;
+  private publishTimer?: ReturnType<typeof setTimeout>;
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private disposables: vscode.Disposable[] = [this.changeEmitter];
+
+  constructor(
+    private pluginCtx: RenodePluginContext,
+    logStream: RenodeLogStream,
+  ) {
+    this.onDidChange = this.changeEmitter.event;
+    this.collection = vscode.languages.createDiagnosticCollection('renode');
+    this.disposables.push(this.collection);
+
+    // A new simulation makes the warnings of the previous one obsolete
+    logStream.onDidConnect(
+      session => {
+        this.session = session.name;
+        this.groups.clear();
+        this.publish();
+      },
+      undefined,
+      this.disposables,
+    );
+    logStream.onDidReceiveEntries(
+      entries => this.onEntries(entries),
+      undefined,
+      this.disposables,
+    );
+
+    // GDB can only resolve addresses while the target is stopped
+    pluginCtx.onDidChangeState(
+      event => {
+        if (event.state === RenodeState.PAUSED) {
+          this.resolvePending();
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    if (uri.toString() !== this.summaryUri?.toString()) {
+      return '';
+    }
+    return [...this.groups.values()]
+      .map(group => `${group.count}x ${group.entry.raw}`)
+      .join('\n');
+  }
+
+  dispose() {
+    clearTimeout(this.publishTimer);
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private get summaryUri(): vscode.Uri | undefined {
+    return this.session === undefined
+      ? undefined
+      : vscode.Uri.from({
+          scheme: SUMMARY_SCHEME,
+          path: `/${this.session} warnings`,
+        });
+  }
+
+  private onEntries(entries: LogEntry[]) {
+    let changed = false;
+    for (const entry of entries) {
+      if (entry.level !== 'WARNING' && entry.level !== 'ERROR') {
+        continue;
+      }
+
+      const key = groupKey(entry);
+      const group = this.groups.get(key);
+      if (group !== undefined) {
+        group.count++;
+      } else if (this.groups.size < MAX_GROUPS) {
+        const created: WarningGroup = {
+          entry,
+          count: 1,
+          pc: findPc(entry.message),
+          resolving: false,
+        };
+        this.groups.set(key, created);
+        this.resolve(created);
+      }
+      changed = true;
+    }
+
+    // Warnings often come in bursts, e.g. from a driver polling a missing peripheral
+    if (changed && this.publishTimer === undefined) {
+      this.publishTimer = setTimeout(() => {
+        this.publishTimer = undefined;
+        this.publish();
+      }, PUBLISH_DELAY);
+    }
+  }
+
+  private resolvePending() {
+    for (const group of this.groups.values()) {
+      if (group.location === undefined) {
+        this.resolve(group);
+      }
+    }
+  }
+
+  private async resolve(group: WarningGroup) {
+    if (group.pc === undefined || group.resolving || !this.session) {
+      return;
+    }
+
+    group.resolving = true;
+    const args: ResolveAddressArguments = {
+      session: this.session,
+      address: group.pc,
+    };
+    for (const debugSession of this.pluginCtx.getDebugSessions()) {
+      try {
+        const source: SourceLine | undefined = await debugSession.customRequest(
+          RESOLVE_ADDRESS_REQUEST,
+          args,
+        );
+        if (source?.path) {
+          group.location = new vscode.Location(
+            vscode.Uri.file(source.path),
+            new vscode.Position(Math.max(source.line - 1, 0), 0),
+          );
+          this.publish();
+          break;
+        }
+      } catch {
+        // Most likely the target is running, retried once it stops
+      }
+    }
+    group.resolving = false;
+  }
+
+  private publish() {
+    this.collection.clear();
+    const summaryUri = this.summaryUri;
+    if (summaryUri === undefined) {
+      return;
+    }
+
+    const byUri = new Map<string, [vscode.Uri, vscode.Diagnostic[]]>();
+    const add = (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+      const key = uri.toString();
+      if (!byUri.has(key)) {
+        byUri.set(key, [uri, []]);
+      }
+      byUri.get(key)![1].push(diagnostic);
+    };
+
+    [...this.groups.values()].forEach((group, line) => {
+      const { entry, count } = group;
+      const source = [entry.machine, entry.source].filter(s => s).join('/');
+      const message = `${source ? `${source}: ` : ''}${entry.message}${count > 1 ? ` (${count} times)` : ''}`;
+      const severity =
+        entry.level === 'ERROR'
+          ? vscode.DiagnosticSeverity.Error
+          : vscode.DiagnosticSeverity.Warning;
+      const summaryLocation = new vscode.Location(
+        summaryUri,
+        new vscode.Range(line, 0, line, entry.raw.length),
+      );
+
+      const diagnostic = new vscode.Diagnostic(
+        (group.location ?? summaryLocation).range,
+        message,
+        severity,
+      );
+      diagnostic.source = 'Renode';
+      if (group.location !== undefined) {
+        diagnostic.relatedInformation = [
+          new vscode.DiagnosticRelatedInformation(
+            summaryLocation,
+            'Logged by Renode',
+          ),
+        ];
+      }
+      add(group.location?.uri ?? summaryUri, diagnostic);
+    });
+
+    for (const [uri, diagnostics] of byUri.values()) {
+      this.collection.set(uri, diagnostics);
+    }
+    this.changeEmitter.fire(summaryUri);
+  }
+}
+
+// *** Utilities ***
+
+// Program counter printed by Renode along with accesses, e.g. `[cpu: 0x8000abc]`
+function findPc(message: string): string | undefined {
+  return message
+    .match(/\[cpu\w*:\s*(0x[0-9a-fA-F]+)\]|\bPC\W*(0x[0-9a-fA-F]+)/)
+    ?.slice(1)
+    .find(pc => pc !== undefined);
+}
+
+// Groups warnings by their source and the address they are about, e.g.
+// `ReadDoubleWord from non existing peripheral at 0x40023800` or
+// `Unhandled write to offset 0x10, value 0x1`, where the value written is left out
+export function groupKey(entry: LogEntry): string {
+  const message = entry.message
+    .replace(/\[cpu\w*:\s*0x[0-9a-fA-F]+\]|\bPC\W*0x[0-9a-fA-F]+/g, '')
+    .replace(/,?\s*\bvalue\b.*$/i, '')
+    .trim();
+  const address =
+    message.match(/\b(?:at|offset)\s+(0x[0-9a-fA-F]+)/)?.[1] ??
+    message.match(/0x[0-9a-fA-F]+/)?.[0];
+  // Without an address, numbers such as values written are likely to differ every time
+  const what = address ?? message.replace(/\d+/g, '#');
+  return `${entry.level}|${entry.machine ?? ''}|${entry.source ?? ''}|${what}`;
+}
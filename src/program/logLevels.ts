@@ -0,0 +1,82 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { RenodePluginContext } from '../context';
+import { LOG_LEVELS } from './logStream';
+
+// Key of the `logLevels` launch option setting the level of everything
+export const ALL_PERIPHERALS = '*';
+
+export interface LogLevels {
+  // Level of emitters without their own
+  default?: string;
+  // Emitter name and level, as listed by Renode
+  emitters: [string, string][];
+}
+
+// Monitor commands setting the levels given by peripheral path, in the current machine
+export function logLevelCommands(levels: Record<string, string>): string[] {
+  return Object.entries(levels).map(([path, level]) => {
+    // Renode takes levels as numbers, starting from -1 for NOISY
+    const value = LOG_LEVELS.indexOf(level.toUpperCase()) - 1;
+    if (value < -1) {
+      throw new Error(`unknown log level '${level}' of ${path}`);
+    }
+    return path === ALL_PERIPHERALS
+      ? `logLevel ${value}`
+      : `logLevel ${value} ${path}`;
+  });
+}
+
+export async function getLogLevels(
+  pluginCtx: RenodePluginContext,
+): Promise<LogLevels> {
+  const [output] = await pluginCtx.execMonitor(['logLevel']);
+  return parseLogLevels(output ?? '');
+}
+
+export function effectiveLogLevel(
+  levels: LogLevels,
+  path: string,
+): string | undefined {
+  // Emitters might be prefixed with the name of their machine
+  const own = levels.emitters.find(
+    ([emitter]) => emitter === path || emitter.endsWith(`.${path}`),
+  );
+  return own?.[1] ?? levels.default;
+}
+
+// Parses the table printed by the `logLevel` monitor command, e.g.
+//   Currently set levels:
+//   Backend           | Emitter                    | Level
+//   -------------------------------------------------------
+//   console           |                            : INFO
+//   console           | sysbus.uart0               : DEBUG
+// When there is more than one backend, the most verbose level is used,
+// as that is what ends up in at least one of them.
+export function parseLogLevels(output: string): LogLevels {
+  const levels = new Map<string, string>();
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(
+      /^\s*[\w-]+\s*[|:]\s*(\S*)\s*[|:]\s*(NOISY|DEBUG|INFO|WARNING|ERROR)\s*$/i,
+    );
+    if (match === null) {
+      continue;
+    }
+
+    const [, emitter, level] = match;
+    const previous = levels.get(emitter);
+    const upper = level.toUpperCase();
+    if (
+      previous === undefined ||
+      LOG_LEVELS.indexOf(upper) < LOG_LEVELS.indexOf(previous)
+    ) {
+      levels.set(emitter, upper);
+    }
+  }
+
+  const defaultLevel = levels.get('');
+  levels.delete('');
+  return { default: defaultLevel, emitters: [...levels] };
+}
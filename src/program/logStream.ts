@@ -0,0 +1,228 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import WebSocket from 'isomorphic-ws';
+import { RenodePluginContext } from '../context';
+import { RenodeSession, RenodeState } from '../session';
+
+export const LOG_LEVELS = ['NOISY', 'DEBUG', 'INFO', 'WARNING', 'ERROR'];
+
+export interface LogEntry {
+  // Host time the entry was logged at
+  time?: string;
+  virtualTime?: string;
+  level?: string;
+  machine?: string;
+  // Peripheral or other part of Renode the entry comes from
+  source?: string;
+  message: string;
+  // The line as printed by Renode, without colors
+  raw: string;
+}
+
+// Single connection to the log of the active session, shared by everything reading it.
+// It is connected whenever a simulation is running.
+export class RenodeLogStream implements vscode.Disposable {
+  public onDidReceiveEntries: vscode.Event<LogEntry[]>;
+  // Fired once connected to the log of a newly started simulation
+  public onDidConnect: vscode.Event<RenodeSession>;
+  public onDidChangeStatus: vscode.Event<string>;
+  private _status = 'Renode is not running';
+  private socket?: WebSocket;
+  // Session whose log is read
+  private session?: RenodeSession;
+  // Session whose log was read when its connection dropped, read again once it is back
+  private resumeSession?: RenodeSession;
+  // Partial line received at the end of the last message
+  private pending = '';
+  // Last entry, which lines without a header get appended to
+  private last?: LogEntry;
+  private entriesEmitter = new vscode.EventEmitter<LogEntry[]>();
+  private connectEmitter = new vscode.EventEmitter<RenodeSession>();
+  private statusEmitter = new vscode.EventEmitter<string>();
+  private disposables: vscode.Disposable[] = [
+    this.entriesEmitter,
+    this.connectEmitter,
+    this.statusEmitter,
+  ];
+
+  constructor(private pluginCtx: RenodePluginContext) {
+    this.onDidReceiveEntries = this.entriesEmitter.event;
+    this.onDidConnect = this.connectEmitter.event;
+    this.onDidChangeStatus = this.statusEmitter.event;
+
+    pluginCtx.onDidChangeState(
+      event => {
+        if (event.session !== pluginCtx.activeSession) {
+          return;
+        }
+        // The log is only served while Renode is running
+        if (event.state === RenodeState.EMULATION_STARTED) {
+          this.connect(event.session);
+        } else if (
+          event.state === RenodeState.CONNECTED &&
+          this.resumeSession === event.session
+        ) {
+          // Reconnecting does not start the simulation again, which is still running if Renode is
+          this.connect(event.session, true);
+        } else if (event.session.reconnecting) {
+          if (this.session === event.session) {
+            this.resumeSession = event.session;
+          }
+          this.disconnect(`Reconnecting to ${event.session.name}...`);
+        } else if (!event.session.emulationActive) {
+          this.resumeSession = undefined;
+          this.disconnect('Renode is not running');
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+    pluginCtx.onDidChangeSessions(
+      () => {
+        const active = pluginCtx.activeSession;
+        if (active === this.session || active === this.resumeSession) {
+          return;
+        }
+        this.resumeSession = undefined;
+        if (active.emulationActive) {
+          this.connect(active);
+        } else if (this.session !== undefined) {
+          this.disconnect('Renode is not running');
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+
+    if (pluginCtx.activeSession.emulationActive) {
+      this.connect(pluginCtx.activeSession);
+    }
+  }
+
+  get status(): string {
+    return this._status;
+  }
+
+  dispose() {
+    this.disconnect('Disconnected');
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  // Resuming continues reading the log of the same simulation
+  private async connect(session: RenodeSession, resume = false) {
+    this.disconnect(`Connecting to ${session.name}...`);
+    this.session = session;
+    this.resumeSession = undefined;
+
+    let socket: WebSocket;
+    try {
+      socket = await session.connectLogs();
+    } catch (err) {
+      if (this.session === session) {
+        this.setStatus(`Could not connect to the log of ${session.name}`);
+      }
+      return;
+    }
+    if (this.session !== session) {
+      // Another session got connected in the meantime
+      socket.close();
+      return;
+    }
+    this.socket = socket;
+    this.setStatus(`Showing the log of ${session.name}`);
+    if (!resume) {
+      this.connectEmitter.fire(session);
+    }
+
+    const decoder = new TextDecoder('utf-8');
+    socket.addEventListener('message', ev => {
+      const text =
+        typeof ev.data === 'string'
+          ? ev.data
+          : decoder.decode(ev.data as ArrayBuffer, { stream: true });
+      this.onData(text);
+    });
+    socket.addEventListener('close', () => {
+      if (this.socket === socket) {
+        this.socket = undefined;
+        this.setStatus('Disconnected');
+      }
+    });
+  }
+
+  private disconnect(status: string) {
+    const socket = this.socket;
+    this.socket = undefined;
+    this.session = undefined;
+    this.pending = '';
+    this.last = undefined;
+    socket?.close();
+    this.setStatus(status);
+  }
+
+  private onData(text: string) {
+    const lines = (this.pending + text).split(/\r?\n/);
+    this.pending = lines.pop()!;
+
+    const added: LogEntry[] = [];
+    for (const line of lines) {
+      const raw = line.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+      if (raw.trim() === '') {
+        continue;
+      }
+      const entry = parseLogLine(raw);
+      if (entry === undefined && this.last !== undefined) {
+        // Continuation of a multi-line message, e.g. a stack trace
+        this.last.message += `\n${raw}`;
+        this.last.raw += `\n${raw}`;
+        continue;
+      }
+      this.last = entry ?? { message: raw, raw };
+      added.push(this.last);
+    }
+
+    if (added.length > 0) {
+      this.entriesEmitter.fire(added);
+    }
+  }
+
+  private setStatus(status: string) {
+    this._status = status;
+    this.statusEmitter.fire(status);
+  }
+}
+
+// Parses a line of the Renode log, e.g.
+//   12:04:31.6174 [INFO] stm32f4/sysbus.usart2: Hello (virt: 0.0123s)
+// The machine is only printed if there is more than one.
+// Returns undefined for lines which do not start a new entry
+export function parseLogLine(line: string): LogEntry | undefined {
+  const match = line.match(
+    /^\s*(\d{1,2}:\d{2}:\d{2}(?:\.\d+)?)?\s*\[(NOISY|DEBUG|INFO|WARNING|ERROR)\]\s*(?:([^\s:]+):\s)?(.*)$/,
+  );
+  if (match === null) {
+    return undefined;
+  }
+
+  const [, time, level, origin, message] = match;
+  let machine: string | undefined;
+  let source = origin;
+  const slash = origin?.indexOf('/') ?? -1;
+  if (slash !== -1) {
+    machine = origin.slice(0, slash);
+    source = origin.slice(slash + 1);
+  }
+  const virtualTime = message.match(/\bvirt(?:ual)?:\s*([^,)\s]+)/)?.[1];
+  return {
+    time,
+    virtualTime,
+    level,
+    machine,
+    source,
+    message,
+    raw: line,
+  };
+}
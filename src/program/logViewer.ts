@@ -0,0 +1,334 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { LOG_LEVELS, LogEntry, RenodeLogStream } from './logStream';
+
+// Older entries are dropped, so that a chatty simulation does not exhaust memory
+const MAX_ENTRIES = 10_000;
+
+// Toolbar and table of the log viewer, shared with other views listing output
+export const TABLE_VIEW_STYLES = `
+  body {
+    padding: 0;
+    color: var(--vscode-editor-foreground);
+    background-color: var(--vscode-editor-background);
+    font-family: var(--vscode-font-family);
+  }
+  .toolbar {
+    position: sticky;
+    top: 0;
+    display: flex;
+    flex-wrap: wrap;
+    gap: 8px;
+    align-items: center;
+    padding: 6px 8px;
+    background-color: var(--vscode-editor-background);
+    border-bottom: 1px solid var(--vscode-panel-border);
+  }
+  select, input[type="text"] {
+    padding: 3px;
+    border: 1px solid var(--vscode-input-border);
+    background-color: var(--vscode-input-background);
+    color: var(--vscode-input-foreground);
+  }
+  button {
+    padding: 4px 10px;
+    cursor: pointer;
+    border: none;
+    background-color: var(--vscode-button-background);
+    color: var(--vscode-button-foreground);
+  }
+  button:hover {
+    background-color: var(--vscode-button-hoverBackground);
+  }
+  #status {
+    opacity: 0.7;
+  }
+  table {
+    border-collapse: collapse;
+    width: 100%;
+    font-family: var(--vscode-editor-font-family);
+    font-size: var(--vscode-editor-font-size);
+  }
+  td {
+    padding: 0 8px;
+    vertical-align: top;
+    white-space: nowrap;
+  }
+`;
+
+export function registerLogViewerCommands(
+  subscriptions: any[],
+  logStream: RenodeLogStream,
+) {
+  const logsCommand = vscode.commands.registerCommand('renode.openLogs', () =>
+    LogViewerPanel.show(logStream),
+  );
+  subscriptions.push(logsCommand);
+}
+
+// Shows the log of the active session, collected since the panel was opened
+export class LogViewerPanel implements vscode.Disposable {
+  public static readonly viewType = 'renode-logs';
+  private static current?: LogViewerPanel;
+  private entries: LogEntry[] = [];
+  private disposables: vscode.Disposable[] = [];
+
+  private webviewStyles = `${TABLE_VIEW_STYLES}
+  td.message {
+    white-space: pre-wrap;
+    width: 100%;
+  }
+  .WARNING {
+    color: var(--vscode-editorWarning-foreground);
+  }
+  .ERROR {
+    color: var(--vscode-errorForeground);
+  }
+  .NOISY, .DEBUG {
+    opacity: 0.7;
+  }
+`;
+
+  private webviewScript = `
+  const vscode = acquireVsCodeApi();
+  const MAX_ENTRIES = ${MAX_ENTRIES};
+  let entries = [];
+  let paused = false;
+
+  function matches(entry) {
+    const levels = [...document.querySelectorAll('.level:checked')].map(e => e.value);
+    const machine = document.getElementById('machine').value;
+    const source = document.getElementById('source').value;
+    const search = document.getElementById('search').value.toLowerCase();
+    return (entry.level === undefined || levels.includes(entry.level)) &&
+      (machine === '' || entry.machine === machine) &&
+      (source === '' || entry.source === source) &&
+      (search === '' || entry.raw.toLowerCase().includes(search));
+  }
+
+  function row(entry) {
+    const tr = document.createElement('tr');
+    tr.className = entry.level ?? '';
+    for (const field of ['time', 'virtualTime', 'level', 'machine', 'source', 'message']) {
+      const td = document.createElement('td');
+      td.className = field;
+      td.textContent = entry[field] ?? '';
+      tr.appendChild(td);
+    }
+    return tr;
+  }
+
+  // Keeps the options of a filter in sync with the values seen so far
+  function addOption(id, value) {
+    const select = document.getElementById(id);
+    if (value === undefined || [...select.options].some(o => o.value === value)) {
+      return;
+    }
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = value;
+    select.appendChild(option);
+  }
+
+  function append(newEntries) {
+    const body = document.getElementById('entries');
+    const atBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 4;
+    for (const entry of newEntries) {
+      addOption('machine', entry.machine);
+      addOption('source', entry.source);
+      if (matches(entry)) {
+        body.appendChild(row(entry));
+      }
+    }
+    while (body.childElementCount > MAX_ENTRIES) {
+      body.removeChild(body.firstChild);
+    }
+    if (atBottom) {
+      window.scrollTo(0, document.body.scrollHeight);
+    }
+  }
+
+  function render() {
+    document.getElementById('entries').replaceChildren();
+    append(entries);
+  }
+
+  function togglePause() {
+    paused = !paused;
+    document.getElementById('pause').textContent = paused ? 'Resume' : 'Pause';
+    if (!paused) {
+      render();
+    }
+  }
+
+  function clearEntries() {
+    entries = [];
+    render();
+    vscode.postMessage({ command: 'clear' });
+  }
+
+  function exportEntries() {
+    vscode.postMessage({
+      command: 'export',
+      lines: entries.filter(matches).map(entry => entry.raw),
+    });
+  }
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    switch (message.command) {
+      case 'reset':
+        entries = message.entries;
+        render();
+        break;
+      case 'entries':
+        entries.push(...message.entries);
+        entries.splice(0, entries.length - MAX_ENTRIES);
+        // While paused, new entries are only shown after resuming
+        if (!paused) {
+          append(message.entries);
+        }
+        break;
+      case 'status':
+        document.getElementById('status').textContent = message.text;
+        break;
+    }
+  });
+
+  window.addEventListener('load', () => vscode.postMessage({ command: 'ready' }));
+`;
+
+  static show(logStream: RenodeLogStream) {
+    if (LogViewerPanel.current !== undefined) {
+      LogViewerPanel.current.panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      LogViewerPanel.viewType,
+      'Renode Logs',
+      vscode.ViewColumn.Active,
+      { enableScripts: true },
+    );
+    LogViewerPanel.current = new LogViewerPanel(panel, logStream);
+  }
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private logStream: RenodeLogStream,
+  ) {
+    panel.webview.html = this.getHtmlForWebview();
+    panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+    panel.webview.onDidReceiveMessage(
+      message => this.onMessage(message),
+      undefined,
+      this.disposables,
+    );
+
+    logStream.onDidReceiveEntries(
+      entries => {
+        this.entries.push(...entries);
+        this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+        this.panel.webview.postMessage({ command: 'entries', entries });
+      },
+      undefined,
+      this.disposables,
+    );
+    logStream.onDidChangeStatus(
+      text => this.panel.webview.postMessage({ command: 'status', text }),
+      undefined,
+      this.disposables,
+    );
+  }
+
+  dispose() {
+    LogViewerPanel.current = undefined;
+    this.panel.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private async onMessage(message: any) {
+    switch (message.command) {
+      case 'ready':
+        this.panel.webview.postMessage({
+          command: 'reset',
+          entries: this.entries,
+        });
+        this.panel.webview.postMessage({
+          command: 'status',
+          text: this.logStream.status,
+        });
+        break;
+      case 'clear':
+        this.entries = [];
+        break;
+      case 'export':
+        await this.export(message.lines);
+        break;
+      default:
+        vscode.window.showErrorMessage(
+          `Received unknown command: ${message.command}`,
+        );
+        break;
+    }
+  }
+
+  private async export(lines: string[]) {
+    const uri = await vscode.window.showSaveDialog({
+      title: 'Export Renode log',
+      defaultUri: vscode.workspace.workspaceFolders?.[0]
+        ? vscode.Uri.joinPath(
+            vscode.workspace.workspaceFolders[0].uri,
+            'renode.log',
+          )
+        : undefined,
+      filters: { Logs: ['log', 'txt'] },
+    });
+    if (uri === undefined) {
+      return;
+    }
+
+    try {
+      await vscode.workspace.fs.writeFile(
+        uri,
+        new TextEncoder().encode(`${lines.join('\n')}\n`),
+      );
+    } catch (err) {
+      vscode.window.showErrorMessage(`Failed to export the log: ${err}`);
+    }
+  }
+
+  private getHtmlForWebview(): string {
+    const levels = LOG_LEVELS.map(
+      level =>
+        `<label><input type="checkbox" class="level" value="${level}" checked onchange="render()">${level}</label>`,
+    ).join('');
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Renode Logs</title>
+      <style>${this.webviewStyles}</style>
+      <script>${this.webviewScript}</script>
+    </head>
+    <body>
+      <div class="toolbar">
+        ${levels}
+        <select id="machine" onchange="render()"><option value="">All machines</option></select>
+        <select id="source" onchange="render()"><option value="">All sources</option></select>
+        <input type="text" id="search" placeholder="Search" oninput="render()" />
+        <button id="pause" onclick="togglePause()">Pause</button>
+        <button onclick="clearEntries()">Clear</button>
+        <button onclick="exportEntries()">Export</button>
+        <span id="status"></span>
+      </div>
+      <table><tbody id="entries"></tbody></table>
+    </body>
+    </html>`;
+  }
+}
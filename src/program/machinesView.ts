@@ -0,0 +1,408 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { Sensor } from 'renode-ws-api';
+import { RenodePluginContext } from '../context';
+import { RenodeState } from '../session';
+import { LOG_LEVELS } from './logStream';
+import {
+  ALL_PERIPHERALS,
+  LogLevels,
+  effectiveLogLevel,
+  getLogLevels,
+  logLevelCommands,
+} from './logLevels';
+
+export interface Peripheral {
+  name: string;
+  type: string;
+  // Path usable in monitor commands, e.g. `sysbus.uart0`
+  path: string;
+  children: Peripheral[];
+}
+
+type GroupKind = 'peripherals' | 'uarts' | 'sensors';
+
+export type MachineTreeNode =
+  | { kind: 'machine'; machine: string }
+  | { kind: 'group'; machine: string; group: GroupKind }
+  | {
+      kind: 'peripheral';
+      machine: string;
+      peripheral: Peripheral;
+      logLevels: LogLevels;
+    }
+  | { kind: 'uart'; machine: string; uart: string }
+  | { kind: 'sensor'; machine: string; sensor: Sensor };
+
+const GROUP_LABELS: Record<GroupKind, string> = {
+  peripherals: 'Peripherals',
+  uarts: 'UARTs',
+  sensors: 'Sensors',
+};
+
+export class MachinesViewProvider
+  implements vscode.TreeDataProvider<MachineTreeNode>, vscode.Disposable
+{
+  public static readonly viewType = 'renode-machines';
+  public onDidChangeTreeData: vscode.Event<void>;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [this.changeEmitter];
+
+  constructor(private renodeCtx: RenodePluginContext) {
+    this.onDidChangeTreeData = this.changeEmitter.event;
+
+    renodeCtx.onDidChangeState(
+      event => {
+        if (event.session !== renodeCtx.activeSession) {
+          return;
+        }
+        // Machines only exist after the first transition out of `EMULATION_STARTED`,
+        // once the startup script got executed
+        if (
+          event.previous === RenodeState.EMULATION_STARTED ||
+          event.state === RenodeState.CONNECTED ||
+          event.state === RenodeState.STOPPED ||
+          event.state === RenodeState.DISCONNECTED
+        ) {
+          this.refresh();
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+    // The active session might have changed
+    renodeCtx.onDidChangeSessions(
+      () => this.refresh(),
+      undefined,
+      this.disposables,
+    );
+  }
+
+  refresh() {
+    this.changeEmitter.fire();
+  }
+
+  getTreeItem(node: MachineTreeNode): vscode.TreeItem {
+    const collapsed = vscode.TreeItemCollapsibleState.Collapsed;
+    let item: vscode.TreeItem;
+    switch (node.kind) {
+      case 'machine':
+        item = new vscode.TreeItem(node.machine, collapsed);
+        item.id = `machine:${node.machine}`;
+        item.iconPath = new vscode.ThemeIcon('vm');
+        item.contextValue = 'renodeMachine';
+        break;
+      case 'group':
+        item = new vscode.TreeItem(GROUP_LABELS[node.group], collapsed);
+        item.id = `${node.group}:${node.machine}`;
+        break;
+      case 'peripheral':
+        item = new vscode.TreeItem(
+          node.peripheral.name,
+          node.peripheral.children.length > 0
+            ? collapsed
+            : vscode.TreeItemCollapsibleState.None,
+        );
+        item.id = `peripheral:${node.machine}:${node.peripheral.path}`;
+        item.description = [
+          node.peripheral.type,
+          effectiveLogLevel(node.logLevels, node.peripheral.path),
+        ]
+          .filter(d => d)
+          .join(' · ');
+        item.tooltip = node.peripheral.path;
+        item.iconPath = new vscode.ThemeIcon('circuit-board');
+        item.contextValue = 'renodePeripheral';
+        break;
+      case 'uart':
+        item = new vscode.TreeItem(node.uart);
+        item.id = `uart:${node.machine}:${node.uart}`;
+        item.iconPath = new vscode.ThemeIcon('terminal');
+        item.contextValue = 'renodeUart';
+        item.command = {
+          title: 'Open UART console',
+          command: 'renode.machines.openUart',
+          arguments: [node],
+        };
+        break;
+      case 'sensor':
+        item = new vscode.TreeItem(node.sensor.name);
+        item.id = `sensor:${node.machine}:${node.sensor.name}`;
+        item.description = node.sensor.types.join(', ');
+        item.iconPath = new vscode.ThemeIcon('pulse');
+        break;
+    }
+    return item;
+  }
+
+  async getChildren(node?: MachineTreeNode): Promise<MachineTreeNode[]> {
+    if (!this.renodeCtx.socketReady) {
+      return [];
+    }
+
+    try {
+      return await this.fetchChildren(node);
+    } catch (err) {
+      // The simulation might have been stopped in the meantime
+      console.error('Failed to list Renode machines:', err);
+      return [];
+    }
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private async fetchChildren(
+    node?: MachineTreeNode,
+  ): Promise<MachineTreeNode[]> {
+    if (node === undefined) {
+      const machines = await this.renodeCtx.getMachines();
+      return machines.map(machine => ({ kind: 'machine', machine }));
+    }
+
+    const { machine } = node;
+    switch (node.kind) {
+      case 'machine':
+        return (['peripherals', 'uarts', 'sensors'] as GroupKind[]).map(
+          group => ({ kind: 'group', machine, group }),
+        );
+      case 'group':
+        switch (node.group) {
+          case 'peripherals': {
+            // Levels are only shown, so peripherals are listed even if they cannot be read
+            const [peripherals, logLevels] = await Promise.all([
+              getPeripherals(this.renodeCtx, machine),
+              getLogLevels(this.renodeCtx).catch(() => ({ emitters: [] })),
+            ]);
+            return peripherals.map(peripheral => ({
+              kind: 'peripheral',
+              machine,
+              peripheral,
+              logLevels,
+            }));
+          }
+          case 'uarts':
+            return (await this.renodeCtx.getUarts(machine)).map(uart => ({
+              kind: 'uart',
+              machine,
+              uart,
+            }));
+          case 'sensors':
+            return (await this.renodeCtx.getSensors(machine)).map(sensor => ({
+              kind: 'sensor',
+              machine,
+              sensor,
+            }));
+        }
+        break;
+      case 'peripheral':
+        return node.peripheral.children.map(peripheral => ({
+          kind: 'peripheral',
+          machine,
+          peripheral,
+          logLevels: node.logLevels,
+        }));
+      default:
+        break;
+    }
+    return [];
+  }
+}
+
+export function registerMachineCommands(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+  provider: MachinesViewProvider,
+) {
+  const openUartCommand = vscode.commands.registerCommand(
+    'renode.machines.openUart',
+    (node: MachineTreeNode & { kind: 'uart' }) =>
+      pluginCtx.createUARTTerminal(node.machine, node.uart),
+  );
+  subscriptions.push(openUartCommand);
+
+  const resetCommand = vscode.commands.registerCommand(
+    'renode.machines.reset',
+    (node: MachineTreeNode & { kind: 'machine' }) =>
+      resetMachineCommandHandler(pluginCtx, node.machine),
+  );
+  subscriptions.push(resetCommand);
+
+  const copyPathCommand = vscode.commands.registerCommand(
+    'renode.machines.copyPeripheralPath',
+    (node: MachineTreeNode & { kind: 'peripheral' }) =>
+      vscode.env.clipboard.writeText(node.peripheral.path),
+  );
+  subscriptions.push(copyPathCommand);
+
+  const setLogLevelCommand = vscode.commands.registerCommand(
+    'renode.setLogLevel',
+    (node?: MachineTreeNode & { kind: 'peripheral' }) =>
+      setLogLevelCommandHandler(pluginCtx, provider, node),
+  );
+  subscriptions.push(setLogLevelCommand);
+
+  const refreshCommand = vscode.commands.registerCommand(
+    'renode.machines.refresh',
+    () => provider.refresh(),
+  );
+  subscriptions.push(refreshCommand);
+}
+
+async function resetMachineCommandHandler(
+  pluginCtx: RenodePluginContext,
+  machine: string,
+) {
+  try {
+    await pluginCtx.execMonitor([
+      `mach set ${JSON.stringify(machine)}`,
+      'machine Reset',
+    ]);
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to reset ${machine}: ${err}`);
+  }
+}
+
+async function setLogLevelCommandHandler(
+  pluginCtx: RenodePluginContext,
+  provider: MachinesViewProvider,
+  node?: MachineTreeNode & { kind: 'peripheral' },
+) {
+  try {
+    let machine = node?.machine;
+    let target = node?.peripheral.path;
+    if (machine === undefined) {
+      machine = await pickMachine(pluginCtx);
+      if (machine === undefined) {
+        return;
+      }
+    }
+
+    const levels = await getLogLevels(pluginCtx);
+    if (target === undefined) {
+      target = await pickPeripheral(pluginCtx, machine, levels);
+      if (target === undefined) {
+        return;
+      }
+    }
+
+    const current =
+      target === ALL_PERIPHERALS
+        ? levels.default
+        : effectiveLogLevel(levels, target);
+    const level = await vscode.window.showQuickPick(
+      LOG_LEVELS.map(label => ({
+        label,
+        description: label === current ? 'current' : undefined,
+      })),
+      {
+        title: `Log level of ${target === ALL_PERIPHERALS ? 'all peripherals' : target}`,
+      },
+    );
+    if (level === undefined) {
+      return;
+    }
+
+    await pluginCtx.execMonitor([
+      `mach set ${JSON.stringify(machine)}`,
+      ...logLevelCommands({ [target]: level.label }),
+    ]);
+    provider.refresh();
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to set the log level: ${err}`);
+  }
+}
+
+// *** Utilities ***
+
+async function pickMachine(
+  pluginCtx: RenodePluginContext,
+): Promise<string | undefined> {
+  const machines = await pluginCtx.getMachines();
+  if (machines.length === 0) {
+    throw new Error('there are no machines');
+  }
+  if (machines.length === 1) {
+    return machines[0];
+  }
+  return vscode.window.showQuickPick(machines, { title: 'Machine' });
+}
+
+async function pickPeripheral(
+  pluginCtx: RenodePluginContext,
+  machine: string,
+  levels: LogLevels,
+): Promise<string | undefined> {
+  const flatten = (list: Peripheral[]): Peripheral[] =>
+    list.flatMap(p => [p, ...flatten(p.children)]);
+
+  const peripherals = flatten(await getPeripherals(pluginCtx, machine));
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'All peripherals',
+        description: levels.default,
+        path: ALL_PERIPHERALS,
+      },
+      ...peripherals.map(p => ({
+        label: p.path,
+        description: effectiveLogLevel(levels, p.path),
+        detail: p.type,
+        path: p.path,
+      })),
+    ],
+    { title: 'Peripheral to set the log level of', matchOnDetail: true },
+  );
+  return picked?.path;
+}
+
+export async function getPeripherals(
+  pluginCtx: RenodePluginContext,
+  machine: string,
+): Promise<Peripheral[]> {
+  const [, output] = await pluginCtx.execMonitor([
+    `mach set ${JSON.stringify(machine)}`,
+    'peripherals',
+  ]);
+  return parsePeripherals(output ?? '');
+}
+
+// Parses the tree printed by the `peripherals` monitor command, where
+// the depth of each peripheral is given by the column its name starts at, e.g.
+//   sysbus (SystemBus)
+//   │
+//   ├── cpu (CortexM)
+//   │     Slot: 0
+//   └── uart0 (PL011)
+export function parsePeripherals(output: string): Peripheral[] {
+  const roots: Peripheral[] = [];
+  const stack: { column: number; peripheral: Peripheral }[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(/^([\s│├└─]*)([\w.-]+) \(([\w.`-]+)\)\s*$/);
+    if (match === null) {
+      continue;
+    }
+
+    const [, prefix, name, type] = match;
+    const column = prefix.length;
+    while (stack.length > 0 && stack[stack.length - 1].column >= column) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1]?.peripheral;
+    const peripheral: Peripheral = {
+      name,
+      type,
+      path: parent ? `${parent.path}.${name}` : name,
+      children: [],
+    };
+    (parent?.children ?? roots).push(peripheral);
+    stack.push({ column, peripheral });
+  }
+  return roots;
+}
@@ -0,0 +1,948 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import WebSocket from 'isomorphic-ws';
+import { RenodeSession, RenodeState } from '../session';
+import { delay } from '../utils';
+
+// Default timeout of the testers, in seconds. Unlike in `renode-test`,
+// timeouts are measured in host time, not in virtual time
+const DEFAULT_TIMEOUT = 8;
+
+export interface RobotStep {
+  keyword: string;
+  args: string[];
+  // Names of the variables the result is assigned to, e.g. `output` for `${output}=`
+  assign: string[];
+  line: number;
+}
+
+export interface RobotTestCase {
+  name: string;
+  line: number;
+  steps: RobotStep[];
+  setup?: RobotStep;
+  teardown?: RobotStep;
+}
+
+interface RobotKeyword {
+  name: string;
+  // Variables the arguments are bound to, along with their defaults, e.g. `${timeout}=10`
+  params: { name: string; default?: string }[];
+  steps: RobotStep[];
+  // Value of the `[Return]` setting
+  returns?: string;
+}
+
+export interface RobotSuite {
+  tests: RobotTestCase[];
+  // User keywords by their normalized name
+  keywords: Map<string, RobotKeyword>;
+  variables: Map<string, string>;
+  suiteSetup?: RobotStep;
+  suiteTeardown?: RobotStep;
+  testSetup?: RobotStep;
+  testTeardown?: RobotStep;
+  // Whether the suite uses Renode keywords, other suites are left to other test runners
+  usesRenode: boolean;
+}
+
+// Failure of a test, reported at the step of the innermost keyword that failed
+export class RobotFailure extends Error {
+  constructor(
+    message: string,
+    public line: number,
+  ) {
+    super(message);
+  }
+}
+
+interface KeywordDefinition {
+  // Names of the arguments, which can also be given as `name=value`
+  params: string[];
+  // The first argument is the name of a variable and is not resolved
+  takesVariable?: boolean;
+  run: (
+    args: Record<string, string | undefined>,
+    rest: string[],
+    scopes: Map<string, string>[],
+  ) => Promise<string | void>;
+}
+
+// Renode keywords that are supported, used to tell Renode suites apart from other ones
+const RENODE_KEYWORDS = [
+  'Setup',
+  'Teardown',
+  'Test Setup',
+  'Test Teardown',
+  'Reset Emulation',
+  'Execute Command',
+  'Execute Script',
+  'Start Emulation',
+  'Pause Emulation',
+  'Create Terminal Tester',
+  'Wait For Line On Uart',
+  'Wait For Prompt On Uart',
+  'Wait For Next Line On Uart',
+  'Should Not Be On Uart',
+  'Write Line To Uart',
+  'Write To Uart',
+  'Create Log Tester',
+  'Wait For Log Entry',
+  'Should Not Be In Log',
+].map(normalizeName);
+
+// Runs the test cases of a single suite against a Renode session, interpreting Renode
+// keywords as monitor commands and reading UARTs and the log over the session's sockets
+export class RobotSuiteRunner implements vscode.Disposable {
+  // Called before the emulation gets started for the first time in a test, e.g. to attach a debugger
+  public beforeStart?: () => Promise<void>;
+  private variables: Map<string, string>;
+  private testVariables = new Map<string, string>();
+  private keywords: Map<string, KeywordDefinition>;
+  private testers: StreamTester[] = [];
+  private logTester?: StreamTester;
+  private started = false;
+  private beforeStartCalled = false;
+  private token?: vscode.CancellationToken;
+
+  constructor(
+    private session: RenodeSession,
+    private suite: RobotSuite,
+    private uri: vscode.Uri,
+    private output: (text: string) => void,
+  ) {
+    const dir = vscode.Uri.joinPath(uri, '..');
+    this.variables = new Map([
+      ['CURDIR', uri.scheme === 'file' ? dir.fsPath : dir.path],
+      ['SPACE', ' '],
+      ['EMPTY', ''],
+      ['True', 'True'],
+      ['False', 'False'],
+    ]);
+    this.keywords = this.createKeywords();
+  }
+
+  // Starts Renode if needed and runs the suite setup
+  async start(token: vscode.CancellationToken) {
+    this.token = token;
+    // Variables can refer to the ones defined before them
+    for (const [name, value] of this.suite.variables) {
+      this.variables.set(name, this.resolve(value, [this.variables]));
+    }
+    if (!this.session.emulationActive) {
+      await this.session.startRenode();
+    }
+    try {
+      this.logTester = new StreamTester(
+        await this.session.connectLogs(),
+        DEFAULT_TIMEOUT,
+        this.output,
+      );
+    } catch {
+      // Logs are only needed by the log keywords, which report it themselves
+    }
+
+    if (this.suite.suiteSetup) {
+      await this.runStep(this.suite.suiteSetup, [this.variables]);
+    }
+  }
+
+  async runTest(test: RobotTestCase, token: vscode.CancellationToken) {
+    this.token = token;
+    this.testVariables = new Map();
+    this.beforeStartCalled = false;
+    const scopes = [this.testVariables, this.variables];
+
+    let failure: unknown;
+    try {
+      const setup = test.setup ?? this.suite.testSetup;
+      if (setup) {
+        await this.runStep(setup, scopes);
+      }
+      await this.runSteps(test.steps, scopes);
+    } catch (e) {
+      failure = e;
+    }
+
+    // Teardowns run even if the test failed, but do not hide the reason it did
+    const teardown = test.teardown ?? this.suite.testTeardown;
+    if (teardown) {
+      try {
+        await this.runStep(teardown, scopes);
+      } catch (e) {
+        failure ??= e;
+      }
+    }
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  // Runs the suite teardown
+  async finish() {
+    if (this.suite.suiteTeardown) {
+      await this.runStep(this.suite.suiteTeardown, [this.variables]);
+    }
+  }
+
+  dispose() {
+    this.testers.forEach(t => t.dispose());
+    this.logTester?.dispose();
+  }
+
+  // *** Keywords ***
+
+  private createKeywords(): Map<string, KeywordDefinition> {
+    const noop = { params: [], run: async () => {} };
+    const reset = { params: [], run: () => this.resetEmulation() };
+    const definitions: Record<string, KeywordDefinition> = {
+      // Renode itself is managed by the session and kept running, so the suite
+      // starts and leaves it without any machines instead
+      Setup: reset,
+      Teardown: reset,
+      // State of a test is reset by `runTest` before it starts
+      'Test Setup': noop,
+      'Test Teardown': reset,
+      'Reset Emulation': reset,
+      'Execute Command': {
+        params: ['command', 'machine'],
+        run: async ({ command, machine }) => {
+          const commands = [command ?? ''];
+          if (machine) {
+            commands.unshift(`mach set ${JSON.stringify(machine)}`);
+          }
+          const output = await this.session.execMonitor(commands);
+          return output[output.length - 1] ?? '';
+        },
+      },
+      'Execute Script': {
+        params: ['path'],
+        run: async ({ path }) => {
+          await this.session.execMonitor([`i @${await this.serverPath(path)}`]);
+        },
+      },
+      'Start Emulation': {
+        params: [],
+        run: async () => {
+          this.started = false;
+          await this.ensureStarted();
+        },
+      },
+      'Pause Emulation': {
+        params: [],
+        run: async () => {
+          await this.session.execMonitor(['pause']);
+          this.session.setEmulationState(RenodeState.PAUSED);
+          this.started = false;
+        },
+      },
+      'Create Terminal Tester': {
+        params: ['uart', 'timeout', 'machine'],
+        run: async ({ uart, timeout, machine }) => {
+          if (!uart) {
+            throw new Error('UART not given');
+          }
+          const socket = await this.session.connectUart(
+            await this.resolveMachine(machine),
+            uart,
+          );
+          this.testers.push(
+            new StreamTester(
+              socket,
+              parseTime(timeout, DEFAULT_TIMEOUT),
+              this.output,
+            ),
+          );
+          return String(this.testers.length - 1);
+        },
+      },
+      'Wait For Line On Uart': {
+        params: [
+          'content',
+          'timeout',
+          'testerId',
+          'treatAsRegex',
+          'pauseEmulation',
+          'includeUnfinishedLine',
+        ],
+        run: async args => {
+          const tester = this.tester(args.testerId);
+          const line = await this.waitFor(
+            tester,
+            lineMatcher(
+              args.content ?? '',
+              isTrue(args.treatAsRegex),
+              isTrue(args.includeUnfinishedLine),
+            ),
+            parseTime(args.timeout, tester.timeout),
+          );
+          if (line === undefined) {
+            throw new Error(`Terminal tester failed: '${args.content}'`);
+          }
+          return line;
+        },
+      },
+      'Wait For Prompt On Uart': {
+        params: ['prompt', 'timeout', 'testerId', 'treatAsRegex'],
+        run: async args => {
+          const tester = this.tester(args.testerId);
+          const prompt = await this.waitFor(
+            tester,
+            textMatcher(args.prompt ?? '', isTrue(args.treatAsRegex)),
+            parseTime(args.timeout, tester.timeout),
+          );
+          if (prompt === undefined) {
+            throw new Error(`Terminal tester failed: '${args.prompt}'`);
+          }
+          return prompt;
+        },
+      },
+      'Wait For Next Line On Uart': {
+        params: ['timeout', 'testerId'],
+        run: async args => {
+          const tester = this.tester(args.testerId);
+          const line = await this.waitFor(
+            tester,
+            lineMatcher('', false, false),
+            parseTime(args.timeout, tester.timeout),
+          );
+          if (line === undefined) {
+            throw new Error('Terminal tester failed: no line received');
+          }
+          return line;
+        },
+      },
+      'Should Not Be On Uart': {
+        params: ['content', 'timeout', 'testerId', 'treatAsRegex'],
+        run: async args => {
+          const tester = this.tester(args.testerId);
+          const line = await this.waitFor(
+            tester,
+            lineMatcher(args.content ?? '', isTrue(args.treatAsRegex), true),
+            parseTime(args.timeout, tester.timeout),
+          );
+          if (line !== undefined) {
+            throw new Error(`Unexpected line on UART: '${line}'`);
+          }
+        },
+      },
+      'Write Line To Uart': {
+        params: ['content', 'testerId', 'waitForEcho'],
+        run: async ({ content = '', testerId, waitForEcho }) => {
+          const tester = this.tester(testerId);
+          await this.ensureStarted();
+          tester.write(`${content}\r`);
+          if (waitForEcho === undefined || isTrue(waitForEcho)) {
+            // Consume the echo, so that it is not mistaken for the response
+            const echo = await this.waitFor(
+              tester,
+              textMatcher(content, false),
+              tester.timeout,
+            );
+            if (echo === undefined) {
+              throw new Error(`No echo of '${content}' on UART`);
+            }
+          }
+        },
+      },
+      'Write To Uart': {
+        params: ['content', 'testerId'],
+        run: async ({ content = '', testerId }) => {
+          await this.ensureStarted();
+          this.tester(testerId).write(content);
+        },
+      },
+      'Create Log Tester': {
+        params: ['timeout'],
+        run: async ({ timeout }) => {
+          this.requireLogTester().timeout = parseTime(timeout, DEFAULT_TIMEOUT);
+        },
+      },
+      'Wait For Log Entry': {
+        params: ['pattern', 'timeout', 'keep', 'treatAsRegex'],
+        run: async args => {
+          const tester = this.requireLogTester();
+          const entry = await this.waitFor(
+            tester,
+            lineMatcher(args.pattern ?? '', isTrue(args.treatAsRegex), false),
+            parseTime(args.timeout, tester.timeout),
+          );
+          if (entry === undefined) {
+            throw new Error(
+              `Expected pattern "${args.pattern}" did not appear in the log`,
+            );
+          }
+          return entry;
+        },
+      },
+      'Should Not Be In Log': {
+        params: ['pattern', 'timeout', 'treatAsRegex'],
+        run: async args => {
+          const tester = this.requireLogTester();
+          const entry = await this.waitFor(
+            tester,
+            lineMatcher(args.pattern ?? '', isTrue(args.treatAsRegex), false),
+            parseTime(args.timeout, 0),
+          );
+          if (entry !== undefined) {
+            throw new Error(`Unexpected line detected in the log: '${entry}'`);
+          }
+        },
+      },
+
+      // The most common BuiltIn keywords
+      Log: {
+        params: ['message'],
+        run: async ({ message }) => this.output(`${message ?? ''}\n`),
+      },
+      Sleep: {
+        params: ['time'],
+        run: async ({ time }) => {
+          const finished = delay(parseTime(time, 0) * 1000);
+          await Promise.race([finished, cancelled(this.token)]);
+        },
+      },
+      'No Operation': noop,
+      Fail: {
+        params: ['msg'],
+        run: async ({ msg }) => {
+          throw new Error(msg ?? 'Failed');
+        },
+      },
+      'Should Contain': {
+        params: ['container', 'item', 'msg'],
+        run: async ({ container = '', item = '', msg }) => {
+          if (!container.includes(item)) {
+            throw new Error(msg ?? `'${container}' does not contain '${item}'`);
+          }
+        },
+      },
+      'Should Not Contain': {
+        params: ['container', 'item', 'msg'],
+        run: async ({ container = '', item = '', msg }) => {
+          if (container.includes(item)) {
+            throw new Error(msg ?? `'${container}' contains '${item}'`);
+          }
+        },
+      },
+      'Should Be Equal': {
+        params: ['first', 'second', 'msg'],
+        run: async ({ first, second, msg }) => {
+          if (first !== second) {
+            throw new Error(msg ?? `${first} != ${second}`);
+          }
+        },
+      },
+      'Set Test Variable': {
+        params: ['name', 'value'],
+        takesVariable: true,
+        run: async ({ name, value }) => {
+          this.testVariables.set(variableName(name ?? ''), value ?? '');
+        },
+      },
+      'Set Suite Variable': {
+        params: ['name', 'value'],
+        takesVariable: true,
+        run: async ({ name, value }) => {
+          this.variables.set(variableName(name ?? ''), value ?? '');
+        },
+      },
+      'Run Keyword': {
+        params: ['name'],
+        run: async ({ name }, rest, scopes) =>
+          this.runKeyword(name ?? '', rest, scopes),
+      },
+    };
+
+    return new Map(
+      Object.entries(definitions).map(([name, definition]) => [
+        normalizeName(name),
+        definition,
+      ]),
+    );
+  }
+
+  // *** Utilities ***
+
+  private async runSteps(
+    steps: RobotStep[],
+    scopes: Map<string, string>[],
+  ): Promise<{ value: string } | undefined> {
+    for (const step of steps) {
+      if (normalizeName(step.keyword) === 'return') {
+        return { value: this.resolve(step.args[0] ?? '', scopes) };
+      }
+      await this.runStep(step, scopes);
+    }
+    return undefined;
+  }
+
+  private async runStep(step: RobotStep, scopes: Map<string, string>[]) {
+    if (this.token?.isCancellationRequested) {
+      throw new Error('Cancelled');
+    }
+
+    let result: string | void;
+    try {
+      result = await this.runKeyword(step.keyword, step.args, scopes);
+    } catch (e: any) {
+      if (e instanceof RobotFailure) {
+        throw e;
+      }
+      throw new RobotFailure(e.message ?? String(e), step.line);
+    }
+    for (const name of step.assign) {
+      scopes[0].set(name, result ?? '');
+    }
+  }
+
+  private async runKeyword(
+    name: string,
+    rawArgs: string[],
+    scopes: Map<string, string>[],
+  ): Promise<string | void> {
+    const keyword = this.suite.keywords.get(normalizeName(name));
+    if (keyword !== undefined) {
+      const args = rawArgs.map(arg => this.resolve(arg, scopes));
+      const locals = new Map<string, string>();
+      keyword.params.forEach((param, i) => {
+        const value =
+          args[i] ??
+          (param.default !== undefined
+            ? this.resolve(param.default, scopes)
+            : undefined);
+        if (value === undefined) {
+          throw new Error(`Keyword '${keyword.name}' expects ${param.name}`);
+        }
+        locals.set(param.name, value);
+      });
+
+      const keywordScopes = [locals, this.testVariables, this.variables];
+      const returned = await this.runSteps(keyword.steps, keywordScopes);
+      if (returned !== undefined) {
+        return returned.value;
+      }
+      return keyword.returns && this.resolve(keyword.returns, keywordScopes);
+    }
+
+    const definition = this.keywords.get(normalizeName(name));
+    if (definition === undefined) {
+      throw new Error(`Keyword '${name}' is not supported in the editor`);
+    }
+    const args = rawArgs.map((arg, i) =>
+      i === 0 && definition.takesVariable ? arg : this.resolve(arg, scopes),
+    );
+
+    // Arguments are bound in order, unless they are given by name
+    const bound: Record<string, string | undefined> = {};
+    const rest: string[] = [];
+    let position = 0;
+    for (const arg of args) {
+      const named = arg.match(/^(\w+)=(.*)$/);
+      if (named !== null && definition.params.includes(named[1])) {
+        bound[named[1]] = named[2];
+      } else if (position < definition.params.length) {
+        bound[definition.params[position++]] = arg;
+      } else {
+        rest.push(arg);
+      }
+    }
+    return definition.run(bound, rest, scopes);
+  }
+
+  // Substitutes `${name}` with the value of the variable from the innermost scope defining it
+  private resolve(text: string, scopes: Map<string, string>[]): string {
+    return text.replace(/\$\{([^{}]+)\}/g, (_, name: string) => {
+      if (/^-?\d+(\.\d+)?$/.test(name)) {
+        return name;
+      }
+      for (const scope of scopes) {
+        const value = scope.get(name);
+        if (value !== undefined) {
+          return value;
+        }
+      }
+      throw new Error(`Variable '\${${name}}' not found`);
+    });
+  }
+
+  private async resetEmulation() {
+    await this.session.execMonitor(['Clear']);
+    this.testers.forEach(t => t.dispose());
+    this.testers = [];
+    this.started = false;
+  }
+
+  private async ensureStarted() {
+    if (this.started) {
+      return;
+    }
+    if (!this.beforeStartCalled) {
+      this.beforeStartCalled = true;
+      await this.beforeStart?.();
+    }
+    await this.session.execMonitor(['start']);
+    this.session.setEmulationState(RenodeState.RUNNING);
+    this.started = true;
+  }
+
+  private async waitFor(
+    tester: StreamTester,
+    match: Matcher,
+    timeout: number,
+  ): Promise<string | undefined> {
+    // Nothing would show up if the emulation was not running
+    await this.ensureStarted();
+    const found = await tester.waitFor(match, timeout, this.token);
+    if (this.token?.isCancellationRequested) {
+      throw new Error('Cancelled');
+    }
+    return found;
+  }
+
+  private tester(id?: string): StreamTester {
+    const tester = this.testers[id ? Number(id) : this.testers.length - 1];
+    if (tester === undefined) {
+      throw new Error(
+        id ? `Terminal tester ${id} not found` : 'No terminal tester created',
+      );
+    }
+    return tester;
+  }
+
+  private requireLogTester(): StreamTester {
+    if (this.logTester === undefined) {
+      throw new Error('The Renode log is not available in this session');
+    }
+    return this.logTester;
+  }
+
+  private async resolveMachine(machine?: string): Promise<string> {
+    if (machine) {
+      return machine;
+    }
+    const machines = await this.session.getMachines();
+    if (machines.length !== 1) {
+      throw new Error('The machine has to be given with machine=');
+    }
+    return machines[0];
+  }
+
+  // Files of local sessions are used in place, remote sessions get a copy
+  private async serverPath(path = ''): Promise<string> {
+    const isAbsolute = path.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(path);
+    if (!isAbsolute || (this.session.isLocal && this.uri.scheme === 'file')) {
+      return path;
+    }
+    const uri =
+      this.uri.scheme === 'file'
+        ? vscode.Uri.file(path)
+        : this.uri.with({ path });
+    const resp = await this.session.sendFileFromPath(uri.toString());
+    return resp.path;
+  }
+}
+
+// Finds what a keyword waits for in the output received so far, returning it and where it ends
+type Matcher = (buffer: string) => { value: string; end: number } | undefined;
+
+// Collects the output of a UART or of the log for the keywords waiting for it
+class StreamTester implements vscode.Disposable {
+  // Output not consumed by any keyword yet, without colors and carriage returns
+  private buffer = '';
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  constructor(
+    private socket: WebSocket,
+    public timeout: number,
+    output: (text: string) => void,
+  ) {
+    const decoder = new TextDecoder('utf-8');
+    socket.addEventListener('message', ev => {
+      const text =
+        typeof ev.data === 'string'
+          ? ev.data
+          : decoder.decode(ev.data as ArrayBuffer, { stream: true });
+      output(text);
+      this.buffer += text.replace(/\x1b\[[0-9;]*[A-Za-z]|\r/g, '');
+      this.changeEmitter.fire();
+    });
+  }
+
+  write(text: string) {
+    this.socket.send(text);
+  }
+
+  // Resolves with what was found, or with undefined on timeout or cancellation
+  waitFor(
+    match: Matcher,
+    timeout: number,
+    token?: vscode.CancellationToken,
+  ): Promise<string | undefined> {
+    return new Promise(resolve => {
+      const finish = (value?: string) => {
+        clearTimeout(timer);
+        listener.dispose();
+        cancellation?.dispose();
+        resolve(value);
+      };
+      const check = () => {
+        const found = match(this.buffer);
+        if (found !== undefined) {
+          this.buffer = this.buffer.slice(found.end);
+          finish(found.value);
+        }
+      };
+
+      const timer = setTimeout(() => finish(undefined), timeout * 1000);
+      const listener = this.changeEmitter.event(check);
+      const cancellation = token?.onCancellationRequested(() =>
+        finish(undefined),
+      );
+      check();
+    });
+  }
+
+  dispose() {
+    this.socket.close();
+    this.changeEmitter.dispose();
+  }
+}
+
+export function parseRobot(text: string): RobotSuite {
+  const suite: RobotSuite = {
+    tests: [],
+    keywords: new Map(),
+    variables: new Map(),
+    usesRenode: /renode-keywords\.robot|\$\{RENODEKEYWORDS\}/i.test(text),
+  };
+  let section = '';
+  let test: RobotTestCase | undefined;
+  let keyword: RobotKeyword | undefined;
+
+  for (const row of readRows(text)) {
+    const [first, ...rest] = row.cells;
+    const header = first.match(/^\*+\s*([\w ]+?)\s*\**$/);
+    if (header !== null && !row.indented) {
+      section = header[1].toLowerCase().replace(/s$/, '');
+      test = undefined;
+      keyword = undefined;
+      continue;
+    }
+
+    switch (section) {
+      case 'setting': {
+        const step = makeStep(rest, row.line);
+        switch (first.toLowerCase()) {
+          case 'suite setup':
+            suite.suiteSetup = step;
+            break;
+          case 'suite teardown':
+            suite.suiteTeardown = step;
+            break;
+          case 'test setup':
+            suite.testSetup = step;
+            break;
+          case 'test teardown':
+            suite.testTeardown = step;
+            break;
+        }
+        break;
+      }
+      case 'variable':
+        if (first.startsWith('${')) {
+          suite.variables.set(variableName(first), rest.join(' '));
+        }
+        break;
+      case 'test case':
+      case 'task':
+      case 'keyword': {
+        let cells = row.cells;
+        if (!row.indented) {
+          if (section === 'keyword') {
+            keyword = { name: first, params: [], steps: [] };
+            suite.keywords.set(normalizeName(first), keyword);
+          } else {
+            test = { name: first, line: row.line, steps: [] };
+            suite.tests.push(test);
+          }
+          // The first step can follow the name on the same line
+          cells = rest;
+          if (cells.length === 0) {
+            break;
+          }
+        }
+
+        const setting = cells[0].match(/^\[(\w+)\]$/)?.[1].toLowerCase();
+        const steps = section === 'keyword' ? keyword?.steps : test?.steps;
+        if (setting === undefined) {
+          const step = makeStep(cells, row.line);
+          if (step !== undefined) {
+            steps?.push(step);
+          }
+        } else if (keyword !== undefined && section === 'keyword') {
+          if (setting === 'arguments') {
+            keyword.params = cells.slice(1).map(param => {
+              const [name, ...value] = param.split('=');
+              return {
+                name: variableName(name),
+                default: value.length > 0 ? value.join('=') : undefined,
+              };
+            });
+          } else if (setting === 'return') {
+            keyword.returns = cells[1];
+          }
+        } else if (test !== undefined) {
+          const step = makeStep(cells.slice(1), row.line);
+          if (setting === 'setup') {
+            test.setup = step;
+          } else if (setting === 'teardown') {
+            test.teardown = step;
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  suite.usesRenode ||= suite.tests.some(t =>
+    t.steps.some(step => RENODE_KEYWORDS.includes(normalizeName(step.keyword))),
+  );
+  return suite;
+}
+
+interface RobotRow {
+  cells: string[];
+  indented: boolean;
+  line: number;
+}
+
+// Splits the file into rows of cells, joining `...` continuations with the rows they continue
+function readRows(text: string): RobotRow[] {
+  const rows: RobotRow[] = [];
+  text.split(/\r?\n/).forEach((content, line) => {
+    const cells: string[] = [];
+    for (const cell of content.trim().split(/\t|\s{2,}/)) {
+      if (cell.startsWith('#')) {
+        break;
+      }
+      cells.push(cell);
+    }
+    if (cells.length === 0 || cells[0] === '') {
+      return;
+    }
+
+    if (cells[0] === '...' && rows.length > 0) {
+      rows[rows.length - 1].cells.push(...cells.slice(1));
+      return;
+    }
+    rows.push({ cells, indented: /^\s/.test(content), line });
+  });
+  return rows;
+}
+
+function makeStep(cells: string[], line: number): RobotStep | undefined {
+  const assign: string[] = [];
+  let index = 0;
+  while (index < cells.length && /^\$\{[^}]+\}\s*=?$/.test(cells[index])) {
+    assign.push(variableName(cells[index++]));
+  }
+  const keyword = cells[index];
+  if (keyword === undefined || keyword.toUpperCase() === 'NONE') {
+    return undefined;
+  }
+  return { keyword, args: cells.slice(index + 1), assign, line };
+}
+
+// Strips `${...}=` from a variable, leaving its name
+function variableName(text: string): string {
+  return text
+    .trim()
+    .replace(/\s*=$/, '')
+    .replace(/^\$\{(.*)\}$/, '$1');
+}
+
+// Keyword names ignore case, spaces and underscores
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s_]/g, '');
+}
+
+function isTrue(value?: string): boolean {
+  return /^(true|yes|on|1)$/i.test(value ?? '');
+}
+
+// Parses Robot Framework times, e.g. `5`, `1.5s`, `100ms` or `2 minutes`, into seconds
+function parseTime(text: string | undefined, fallback: number): number {
+  if (text === undefined || text.trim() === '') {
+    return fallback;
+  }
+  const match = text
+    .trim()
+    .match(
+      /^(\d+(?:\.\d+)?)\s*(ms|millis|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)?$/i,
+    );
+  if (match === null) {
+    throw new Error(`Invalid time '${text}'`);
+  }
+  const value = Number(match[1]);
+  const unit = (match[2] ?? 's').toLowerCase();
+  if (unit.startsWith('ms') || unit.startsWith('milli')) {
+    return value / 1000;
+  }
+  return unit.startsWith('m') ? value * 60 : value;
+}
+
+function lineMatcher(
+  content: string,
+  regex: boolean,
+  includeUnfinishedLine: boolean,
+): Matcher {
+  const pattern = regex ? new RegExp(content) : undefined;
+  const matches = (line: string) =>
+    pattern ? pattern.test(line) : line.includes(content);
+
+  return buffer => {
+    let start = 0;
+    for (;;) {
+      const end = buffer.indexOf('\n', start);
+      if (end === -1) {
+        break;
+      }
+      const line = buffer.slice(start, end);
+      if (matches(line)) {
+        return { value: line, end: end + 1 };
+      }
+      start = end + 1;
+    }
+    const unfinished = buffer.slice(start);
+    if (includeUnfinishedLine && unfinished !== '' && matches(unfinished)) {
+      return { value: unfinished, end: buffer.length };
+    }
+    return undefined;
+  };
+}
+
+// Matches text anywhere in the output, e.g. a prompt which is not followed by a newline
+function textMatcher(content: string, regex: boolean): Matcher {
+  return buffer => {
+    if (regex) {
+      const match = buffer.match(new RegExp(content));
+      return match === null
+        ? undefined
+        : { value: match[0], end: match.index! + match[0].length };
+    }
+    const index = buffer.indexOf(content);
+    return index === -1
+      ? undefined
+      : { value: content, end: index + content.length };
+  };
+}
+
+function cancelled(token?: vscode.CancellationToken): Promise<void> {
+  return new Promise(resolve =>
+    token?.onCancellationRequested(() => resolve()),
+  );
+}
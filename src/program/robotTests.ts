@@ -0,0 +1,304 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { RenodePluginContext } from '../context';
+import { RobotFailure, RobotSuiteRunner, parseRobot } from './robotRunner';
+import { pickDebugConfiguration } from './runScript';
+
+const ROBOT_GLOB = '**/*.robot';
+
+export function registerRobotTests(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+) {
+  const controller = vscode.tests.createTestController(
+    'renode-robot',
+    'Renode Robot',
+  );
+  subscriptions.push(controller, new RobotTests(controller, pluginCtx));
+}
+
+// Keeps the test items in sync with the Robot suites in the workspace and runs them
+class RobotTests implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private controller: vscode.TestController,
+    private pluginCtx: RenodePluginContext,
+  ) {
+    controller.resolveHandler = async item => {
+      if (item === undefined) {
+        await this.discover();
+      }
+    };
+    controller.refreshHandler = () => this.discover();
+    controller.createRunProfile(
+      'Run',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.run(request, token, false),
+      true,
+    );
+    controller.createRunProfile(
+      'Debug',
+      vscode.TestRunProfileKind.Debug,
+      (request, token) => this.run(request, token, true),
+      true,
+    );
+
+    const watcher = vscode.workspace.createFileSystemWatcher(ROBOT_GLOB);
+    this.disposables.push(watcher);
+    watcher.onDidCreate(uri => this.update(uri), undefined, this.disposables);
+    watcher.onDidChange(uri => this.update(uri), undefined, this.disposables);
+    watcher.onDidDelete(
+      uri => controller.items.delete(uri.toString()),
+      undefined,
+      this.disposables,
+    );
+    // Test items follow unsaved changes too, so that their ranges stay right
+    vscode.workspace.onDidOpenTextDocument(
+      document => this.updateFromDocument(document),
+      undefined,
+      this.disposables,
+    );
+    vscode.workspace.onDidChangeTextDocument(
+      event => this.updateFromDocument(event.document),
+      undefined,
+      this.disposables,
+    );
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private async discover() {
+    const uris = await vscode.workspace.findFiles(
+      ROBOT_GLOB,
+      '**/node_modules/**',
+    );
+    await Promise.all(uris.map(uri => this.update(uri)));
+  }
+
+  private async update(uri: vscode.Uri) {
+    try {
+      const content = await vscode.workspace.fs.readFile(uri);
+      this.updateItems(uri, new TextDecoder().decode(content));
+    } catch (err) {
+      console.error(`Failed to read ${uri}:`, err);
+    }
+  }
+
+  private updateFromDocument(document: vscode.TextDocument) {
+    if (document.uri.path.endsWith('.robot')) {
+      this.updateItems(document.uri, document.getText());
+    }
+  }
+
+  private updateItems(uri: vscode.Uri, text: string) {
+    const id = uri.toString();
+    const suite = parseRobot(text);
+    if (!suite.usesRenode || suite.tests.length === 0) {
+      this.controller.items.delete(id);
+      return;
+    }
+
+    let file = this.controller.items.get(id);
+    if (file === undefined) {
+      file = this.controller.createTestItem(
+        id,
+        uri.path.split('/').pop()!,
+        uri,
+      );
+      this.controller.items.add(file);
+    }
+    file.children.replace(
+      suite.tests.map(test => {
+        const item = this.controller.createTestItem(
+          `${id}#${test.name}`,
+          test.name,
+          uri,
+        );
+        item.range = new vscode.Range(
+          test.line,
+          0,
+          test.line,
+          test.name.length,
+        );
+        return item;
+      }),
+    );
+  }
+
+  private async run(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    debug: boolean,
+  ) {
+    // Tests to run, grouped by the suite they belong to
+    const suites = new Map<vscode.TestItem, vscode.TestItem[]>();
+    const add = (item: vscode.TestItem) => {
+      if (request.exclude?.includes(item)) {
+        return;
+      }
+      if (item.parent === undefined) {
+        item.children.forEach(add);
+        return;
+      }
+      suites.set(item.parent, [...(suites.get(item.parent) ?? []), item]);
+    };
+    if (request.include) {
+      request.include.forEach(add);
+    } else {
+      this.controller.items.forEach(add);
+    }
+    if (suites.size === 0) {
+      return;
+    }
+
+    let debugConfig: vscode.DebugConfiguration | undefined;
+    if (debug) {
+      debugConfig = await pickDebugConfiguration(
+        suites.keys().next().value!.uri!,
+      );
+      if (debugConfig === undefined) {
+        return;
+      }
+    }
+
+    const run = this.controller.createTestRun(request);
+    for (const tests of suites.values()) {
+      tests.forEach(test => run.enqueued(test));
+    }
+    try {
+      for (const [suite, tests] of suites) {
+        await this.runSuite(run, suite.uri!, tests, token, debugConfig);
+      }
+    } finally {
+      run.end();
+      vscode.commands.executeCommand('renode.machines.refresh');
+    }
+  }
+
+  private async runSuite(
+    run: vscode.TestRun,
+    uri: vscode.Uri,
+    tests: vscode.TestItem[],
+    token: vscode.CancellationToken,
+    debugConfig?: vscode.DebugConfiguration,
+  ) {
+    if (token.isCancellationRequested) {
+      tests.forEach(test => run.skipped(test));
+      return;
+    }
+
+    // The open document might have changes not saved yet
+    const suite = parseRobot(
+      (await vscode.workspace.openTextDocument(uri)).getText(),
+    );
+    const session = this.pluginCtx.activeSession;
+    let current: vscode.TestItem | undefined;
+    const runner = new RobotSuiteRunner(session, suite, uri, text =>
+      run.appendOutput(text.replace(/\r?\n/g, '\r\n'), undefined, current),
+    );
+
+    try {
+      try {
+        await runner.start(token);
+      } catch (e) {
+        tests.forEach(test => run.errored(test, failureMessage(e, uri)));
+        return;
+      }
+
+      for (const test of tests) {
+        const testCase = suite.tests.find(t => t.name === test.label);
+        if (token.isCancellationRequested || testCase === undefined) {
+          run.skipped(test);
+          continue;
+        }
+
+        current = test;
+        let debugSession: vscode.DebugSession | undefined;
+        runner.beforeStart =
+          debugConfig &&
+          (async () => {
+            debugSession = await attachDebugger(
+              debugConfig,
+              test,
+              !session.isLocal,
+            );
+          });
+
+        run.started(test);
+        const begin = Date.now();
+        try {
+          await runner.runTest(testCase, token);
+          run.passed(test, Date.now() - begin);
+        } catch (e) {
+          if (token.isCancellationRequested) {
+            run.skipped(test);
+          } else {
+            run.failed(test, failureMessage(e, uri), Date.now() - begin);
+          }
+        } finally {
+          if (debugSession !== undefined) {
+            await vscode.debug.stopDebugging(debugSession);
+          }
+        }
+      }
+
+      current = undefined;
+      await runner.finish().catch(e => {
+        run.appendOutput(`Suite teardown failed: ${e.message ?? e}\r\n`);
+      });
+    } finally {
+      runner.dispose();
+    }
+  }
+}
+
+// *** Utilities ***
+
+// Attaches a debugger to the simulation of the test, before it gets started
+async function attachDebugger(
+  config: vscode.DebugConfiguration,
+  test: vscode.TestItem,
+  remoteSession: boolean,
+): Promise<vscode.DebugSession> {
+  const name = `${config.name} (${test.label})`;
+  let listener: vscode.Disposable | undefined;
+  const started = new Promise<vscode.DebugSession>(resolve => {
+    listener = vscode.debug.onDidStartDebugSession(session => {
+      if (session.name === name) {
+        resolve(session);
+      }
+    });
+  });
+
+  try {
+    const ok = await vscode.debug.startDebugging(
+      vscode.workspace.getWorkspaceFolder(test.uri!),
+      {
+        ...config,
+        name,
+        request: 'attach',
+        remoteSession: config.remoteSession ?? remoteSession,
+      },
+    );
+    if (!ok) {
+      throw new Error('Failed to attach the debugger');
+    }
+    return await started;
+  } finally {
+    listener?.dispose();
+  }
+}
+
+function failureMessage(e: any, uri: vscode.Uri): vscode.TestMessage {
+  const message = new vscode.TestMessage(e.message ?? String(e));
+  if (e instanceof RobotFailure) {
+    message.location = new vscode.Location(uri, new vscode.Position(e.line, 0));
+  }
+  return message;
+}
@@ -0,0 +1,357 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { RenodePluginContext } from '../context';
+import { RenodeState } from '../session';
+
+// How often the virtual time is refreshed while the simulation runs and the window is focused
+const STATUS_REFRESH_INTERVAL = 1000;
+
+export interface TimeSourceInfo {
+  // Both in Renode's `hh:mm:ss.ffffff` format
+  elapsedVirtualTime?: string;
+  quantum?: string;
+}
+
+export function registerRunControlCommands(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+) {
+  const status = new RunControlStatus(pluginCtx);
+  subscriptions.push(status);
+
+  const pauseCommand = vscode.commands.registerCommand(
+    'renode.pauseEmulation',
+    () => pauseCommandHandler(pluginCtx, status),
+  );
+  subscriptions.push(pauseCommand);
+
+  const resumeCommand = vscode.commands.registerCommand(
+    'renode.resumeEmulation',
+    () => resumeCommandHandler(pluginCtx, status),
+  );
+  subscriptions.push(resumeCommand);
+
+  const runForCommand = vscode.commands.registerCommand(
+    'renode.runFor',
+    (time?: string) => runForCommandHandler(pluginCtx, status, time),
+  );
+  subscriptions.push(runForCommand);
+
+  const stepQuantumCommand = vscode.commands.registerCommand(
+    'renode.stepQuantum',
+    () => stepQuantumCommandHandler(pluginCtx, status),
+  );
+  subscriptions.push(stepQuantumCommand);
+}
+
+// Shows the state of the active session's simulation along with its virtual time
+class RunControlStatus implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private refreshTimer?: ReturnType<typeof setInterval>;
+  private elapsedVirtualTime?: string;
+  private refreshing = false;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private pluginCtx: RenodePluginContext) {
+    this.item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99,
+    );
+    this.disposables.push(this.item);
+
+    pluginCtx.onDidChangeState(
+      event => {
+        if (event.session === pluginCtx.activeSession) {
+          this.refresh();
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+    // The active session might have changed
+    pluginCtx.onDidChangeSessions(
+      () => this.update(),
+      undefined,
+      this.disposables,
+    );
+    // Nobody looks at the virtual time of an unfocused window
+    vscode.window.onDidChangeWindowState(
+      () => this.refresh(),
+      undefined,
+      this.disposables,
+    );
+
+    this.update();
+  }
+
+  // Queries the virtual time and redraws the item
+  async refresh() {
+    if (!this.pluginCtx.emulationActive) {
+      this.elapsedVirtualTime = undefined;
+    }
+    this.update();
+    if (!this.pluginCtx.emulationActive) {
+      return;
+    }
+    // Slow responses must not pile up queries
+    if (this.refreshing) {
+      return;
+    }
+
+    this.refreshing = true;
+    try {
+      const info = await getTimeSourceInfo(this.pluginCtx);
+      this.elapsedVirtualTime = info.elapsedVirtualTime;
+    } catch {
+      // E.g. while the simulation is being reset
+      this.elapsedVirtualTime = undefined;
+    } finally {
+      this.refreshing = false;
+    }
+    this.update();
+  }
+
+  dispose() {
+    this.stopRefreshing();
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private update() {
+    const state = this.pluginCtx.state;
+    if (!this.pluginCtx.socketReady) {
+      this.stopRefreshing();
+      this.elapsedVirtualTime = undefined;
+      this.item.hide();
+      return;
+    }
+
+    if (state === RenodeState.RUNNING && vscode.window.state.focused) {
+      this.startRefreshing();
+    } else {
+      this.stopRefreshing();
+    }
+
+    const time = this.elapsedVirtualTime ?? '--:--:--';
+    switch (state) {
+      case RenodeState.RUNNING:
+        this.item.text = `$(debug-pause) ${time}`;
+        this.item.command = 'renode.pauseEmulation';
+        break;
+      case RenodeState.PAUSED:
+        this.item.text = `$(debug-continue) ${time}`;
+        this.item.command = 'renode.resumeEmulation';
+        break;
+      default:
+        this.item.text = `$(watch) ${time}`;
+        this.item.command = 'renode.resumeEmulation';
+        break;
+    }
+    this.item.tooltip = `Renode simulation: ${state}\nElapsed virtual time: ${time}`;
+    this.item.show();
+  }
+
+  private startRefreshing() {
+    if (this.refreshTimer === undefined) {
+      this.refreshTimer = setInterval(
+        () => this.refresh(),
+        STATUS_REFRESH_INTERVAL,
+      );
+    }
+  }
+
+  private stopRefreshing() {
+    if (this.refreshTimer !== undefined) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+}
+
+async function pauseCommandHandler(
+  pluginCtx: RenodePluginContext,
+  status: RunControlStatus,
+) {
+  if (await controlDebugSession(pluginCtx, 'pause')) {
+    return;
+  }
+  await runControl(pluginCtx, status, RenodeState.PAUSED, ['pause']);
+}
+
+async function resumeCommandHandler(
+  pluginCtx: RenodePluginContext,
+  status: RunControlStatus,
+) {
+  if (await controlDebugSession(pluginCtx, 'continue')) {
+    return;
+  }
+  await runControl(pluginCtx, status, RenodeState.RUNNING, ['start']);
+}
+
+async function runForCommandHandler(
+  pluginCtx: RenodePluginContext,
+  status: RunControlStatus,
+  time?: string,
+) {
+  if (!canRunFor(pluginCtx)) {
+    return;
+  }
+
+  time ??= await vscode.window.showInputBox({
+    title: 'Run simulation for',
+    prompt: 'Virtual time in seconds or in the hh:mm:ss format',
+    value: '1',
+    validateInput: value =>
+      toTimeInterval(value) === undefined ? 'Invalid time' : undefined,
+  });
+  if (time === undefined) {
+    return;
+  }
+
+  const interval = toTimeInterval(time);
+  if (interval === undefined) {
+    vscode.window.showErrorMessage(`Invalid virtual time: ${time}`);
+    return;
+  }
+  await runFor(pluginCtx, status, interval);
+}
+
+async function stepQuantumCommandHandler(
+  pluginCtx: RenodePluginContext,
+  status: RunControlStatus,
+) {
+  if (!canRunFor(pluginCtx)) {
+    return;
+  }
+
+  let quantum: string | undefined;
+  try {
+    quantum = (await getTimeSourceInfo(pluginCtx)).quantum;
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to read the quantum: ${err}`);
+    return;
+  }
+  if (quantum === undefined) {
+    vscode.window.showErrorMessage('Could not determine the global quantum');
+    return;
+  }
+  await runFor(pluginCtx, status, quantum);
+}
+
+// *** Utilities ***
+
+// A debugger attached to the simulation keeps track of whether it runs,
+// so it has to pause and resume the simulation itself.
+// Returns false if there is no debugger.
+async function controlDebugSession(
+  pluginCtx: RenodePluginContext,
+  request: 'pause' | 'continue',
+): Promise<boolean> {
+  const debugSessions = pluginCtx.getDebugSessions(pluginCtx.activeSession);
+  if (debugSessions.length === 0) {
+    return false;
+  }
+
+  try {
+    await Promise.all(
+      debugSessions.map(debugSession =>
+        debugSession.customRequest(request, { threadId: 1 }),
+      ),
+    );
+  } catch (err) {
+    vscode.window.showErrorMessage(`Debugger request failed: ${err}`);
+  }
+  return true;
+}
+
+// Running for a given time would leave an attached debugger unaware that the simulation ran
+function canRunFor(pluginCtx: RenodePluginContext): boolean {
+  if (!pluginCtx.emulationActive) {
+    vscode.window.showErrorMessage('The simulation is not running');
+    return false;
+  }
+  if (pluginCtx.getDebugSessions(pluginCtx.activeSession).length > 0) {
+    vscode.window.showErrorMessage(
+      'Not available while debugging, use the controls of the debugger instead',
+    );
+    return false;
+  }
+  return true;
+}
+
+// `RunFor` blocks until the time passes, so the simulation pauses once it returns
+async function runFor(
+  pluginCtx: RenodePluginContext,
+  status: RunControlStatus,
+  interval: string,
+) {
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: `Running simulation for ${interval}`,
+    },
+    async () => {
+      pluginCtx.activeSession.setEmulationState(RenodeState.RUNNING);
+      await runControl(pluginCtx, status, RenodeState.PAUSED, [
+        `emulation RunFor "${interval}"`,
+      ]);
+    },
+  );
+}
+
+async function runControl(
+  pluginCtx: RenodePluginContext,
+  status: RunControlStatus,
+  state: RenodeState.RUNNING | RenodeState.PAUSED,
+  commands: string[],
+) {
+  if (!pluginCtx.emulationActive) {
+    vscode.window.showErrorMessage('The simulation is not running');
+    return;
+  }
+
+  try {
+    await pluginCtx.execMonitor(commands);
+  } catch (err) {
+    vscode.window.showErrorMessage(`Renode command failed: ${err}`);
+    return;
+  }
+  pluginCtx.activeSession.setEmulationState(state);
+  await status.refresh();
+}
+
+export async function getTimeSourceInfo(
+  pluginCtx: RenodePluginContext,
+): Promise<TimeSourceInfo> {
+  const [output] = await pluginCtx.execMonitor(['emulation GetTimeSourceInfo']);
+  return parseTimeSourceInfo(output ?? '');
+}
+
+function parseTimeSourceInfo(output: string): TimeSourceInfo {
+  const field = (name: string) =>
+    output.match(new RegExp(`${name}:\\s*([\\d:.]+)`))?.[1];
+  return {
+    elapsedVirtualTime: field('Elapsed Virtual Time'),
+    quantum: field('Quantum'),
+  };
+}
+
+// Converts seconds or `hh:mm:ss[.f]` to the format accepted by Renode
+function toTimeInterval(value: string): string | undefined {
+  value = value.trim();
+  if (/^\d+:\d{1,2}:\d{1,2}(\.\d+)?$/.test(value)) {
+    return value;
+  }
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    return undefined;
+  }
+
+  const micros = Math.round(parseFloat(value) * 1e6);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(micros / 3.6e9);
+  const minutes = Math.floor(micros / 6e7) % 60;
+  const seconds = Math.floor(micros / 1e6) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(micros % 1e6, 6)}`;
+}
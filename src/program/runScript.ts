@@ -0,0 +1,221 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { RenodePluginContext } from '../context';
+import { RenodeSession } from '../session';
+import { PeripheralHint, openNamedUartTerminal } from './gdb';
+
+// Terminals to open are listed in the leading comment of the script, e.g.
+//   # terminals: uart0, usart2 (stm32f4)
+const TERMINALS_HEADER = /^#\s*terminals\s*:(.*)$/;
+
+export function registerRunScriptCommands(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+) {
+  const runCommand = vscode.commands.registerCommand(
+    'renode.runScript',
+    (uri?: vscode.Uri) => runScriptCommandHandler(pluginCtx, uri),
+  );
+  subscriptions.push(runCommand);
+
+  const debugCommand = vscode.commands.registerCommand(
+    'renode.debugScript',
+    (uri?: vscode.Uri) => debugScriptCommandHandler(pluginCtx, uri),
+  );
+  subscriptions.push(debugCommand);
+
+  subscriptions.push(
+    vscode.languages.registerCodeLensProvider(
+      'renode-script',
+      new RunScriptCodeLensProvider(),
+    ),
+  );
+}
+
+class RunScriptCodeLensProvider implements vscode.CodeLensProvider {
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const top = new vscode.Range(0, 0, 0, 0);
+    return [
+      new vscode.CodeLens(top, {
+        title: 'Run in Renode',
+        command: 'renode.runScript',
+        arguments: [document.uri],
+      }),
+      new vscode.CodeLens(top, {
+        title: 'Debug in Renode',
+        command: 'renode.debugScript',
+        arguments: [document.uri],
+      }),
+    ];
+  }
+}
+
+async function runScriptCommandHandler(
+  pluginCtx: RenodePluginContext,
+  uri?: vscode.Uri,
+) {
+  uri ??= await pickScript();
+  if (uri === undefined) {
+    return;
+  }
+
+  const session = pluginCtx.activeSession;
+  if (session.emulationActive) {
+    const restart = await vscode.window.showWarningMessage(
+      `A simulation is already running in Renode session '${session.name}'`,
+      { modal: true },
+      'Restart',
+    );
+    if (restart === undefined) {
+      return;
+    }
+    await session.stopRenode();
+  }
+
+  try {
+    await runScript(session, uri);
+  } catch (e: any) {
+    vscode.window.showErrorMessage(
+      `Failed to run ${uri.path}: ${e.message ?? e}`,
+    );
+    // Do not leave a half-loaded simulation behind
+    await session.stopRenode();
+    return;
+  }
+  vscode.commands.executeCommand('renode.machines.refresh');
+}
+
+async function debugScriptCommandHandler(
+  pluginCtx: RenodePluginContext,
+  uri?: vscode.Uri,
+) {
+  uri ??= await pickScript();
+  if (uri === undefined) {
+    return;
+  }
+
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  const config = await pickDebugConfiguration(uri);
+  if (config === undefined) {
+    return;
+  }
+
+  const terminals = readTerminalsHeader(
+    await vscode.workspace.openTextDocument(uri),
+  );
+  await vscode.debug.startDebugging(folder, {
+    ...config,
+    resc: uri.fsPath,
+    terminals: config.terminals ?? terminals,
+    remoteSession: config.remoteSession ?? !pluginCtx.activeSession.isLocal,
+  });
+}
+
+// *** Utilities ***
+
+// Picks a `renodegdb` launch configuration for a file, asking only for the binary if there is none
+export async function pickDebugConfiguration(
+  uri: vscode.Uri,
+): Promise<vscode.DebugConfiguration | undefined> {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  const configurations = (
+    vscode.workspace
+      .getConfiguration('launch', uri)
+      .get<vscode.DebugConfiguration[]>('configurations') ?? []
+  ).filter(config => config.type === 'renodegdb');
+
+  let config: vscode.DebugConfiguration | undefined;
+  if (configurations.length === 1) {
+    config = configurations[0];
+  } else if (configurations.length > 1) {
+    const picked = await vscode.window.showQuickPick(
+      configurations.map(c => ({ label: c.name, config: c })),
+      { title: 'Launch configuration to debug with' },
+    );
+    config = picked?.config;
+  } else {
+    // Without a launch configuration, only the binary is missing
+    const elf = await vscode.window.showOpenDialog({
+      title: 'Binary to debug',
+      defaultUri: folder?.uri,
+      canSelectMany: false,
+    });
+    if (elf !== undefined) {
+      config = {
+        type: 'renodegdb',
+        request: 'launch',
+        name: 'Debug in Renode',
+        elf: elf[0].fsPath,
+        cwd: folder?.uri.fsPath ?? vscode.Uri.joinPath(uri, '..').fsPath,
+      };
+    }
+  }
+  return config;
+}
+
+async function runScript(session: RenodeSession, uri: vscode.Uri) {
+  vscode.window.showInformationMessage('Starting Renode');
+  await session.startRenode();
+
+  let path = uri.fsPath;
+  if (!session.isLocal || uri.scheme !== 'file') {
+    const resp = await session.sendFileFromPath(uri.toString());
+    path = resp.path;
+  }
+  await session.execMonitor([`i @${path}`]);
+
+  const document = await vscode.workspace.openTextDocument(uri);
+  const results = await Promise.allSettled(
+    readTerminalsHeader(document).map(hint =>
+      openNamedUartTerminal(session, hint),
+    ),
+  );
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      vscode.window.showErrorMessage(
+        `Failed to open terminal: ${result.reason.message ?? result.reason}`,
+      );
+    } else {
+      result.value.show(true);
+    }
+  }
+}
+
+async function pickScript(): Promise<vscode.Uri | undefined> {
+  const document = vscode.window.activeTextEditor?.document;
+  if (document?.languageId === 'renode-script') {
+    return document.uri;
+  }
+
+  const picked = await vscode.window.showOpenDialog({
+    title: 'Renode script to run',
+    canSelectMany: false,
+    filters: { 'Renode scripts': ['resc'] },
+  });
+  return picked?.[0];
+}
+
+// Reads `# terminals: uart0, usart2 (stm32f4)` from the comments at the top of the script
+export function readTerminalsHeader(
+  document: vscode.TextDocument,
+): PeripheralHint[] {
+  const hints: PeripheralHint[] = [];
+  for (let line = 0; line < document.lineCount; line++) {
+    const text = document.lineAt(line).text.trim();
+    if (text !== '' && !text.startsWith('#')) {
+      break;
+    }
+
+    const header = text.match(TERMINALS_HEADER);
+    for (const entry of header?.[1].split(',') ?? []) {
+      const terminal = entry.trim().match(/^(\S+)(?:\s*\((.+)\))?$/);
+      if (terminal !== null) {
+        hints.push({ name: terminal[1], machine: terminal[2] });
+      }
+    }
+  }
+  return hints;
+}
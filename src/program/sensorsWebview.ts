@@ -4,6 +4,7 @@
 
 import * as vscode from 'vscode';
 import { RenodePluginContext } from '../context';
+import { RenodeState } from '../session';
 import {
   SensorTypeFromString,
   GetSensorValue,
@@ -102,6 +103,20 @@ export class SensorsViewProvider implements vscode.WebviewViewProvider {
   ) {
     this.extensionCtx = context;
     this.renodeCtx = renodeCtx;
+
+    renodeCtx.onDidChangeState(
+      event => {
+        // Connecting is always followed by another transition, no need to reload twice
+        if (
+          event.session === renodeCtx.activeSession &&
+          event.state !== RenodeState.CONNECTING
+        ) {
+          this.loadSensorsData();
+        }
+      },
+      undefined,
+      context.subscriptions,
+    );
   }
 
   resolveWebviewView(
@@ -175,7 +190,7 @@ export class SensorsViewProvider implements vscode.WebviewViewProvider {
   }
 
   public loadSensorsData() {
-    if (!this.renodeCtx.isDebugging) {
+    if (!this.renodeCtx.emulationActive) {
       if (this._view !== undefined) {
         this._view.webview.html = `
           <style>${this.webviewStyles}</style>
@@ -0,0 +1,130 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { DEFAULT_SESSION_NAME, RenodePluginContext } from '../context';
+import { RenodeSession, RenodeState } from '../session';
+
+export class SessionsViewProvider
+  implements vscode.TreeDataProvider<RenodeSession>
+{
+  public static readonly viewType = 'renode-sessions';
+  public onDidChangeTreeData: vscode.Event<void>;
+
+  constructor(private renodeCtx: RenodePluginContext) {
+    this.onDidChangeTreeData = renodeCtx.onDidChangeSessions;
+  }
+
+  getTreeItem(session: RenodeSession): vscode.TreeItem {
+    const isActive = session === this.renodeCtx.activeSession;
+    const item = new vscode.TreeItem(session.name);
+    item.id = session.name;
+    item.description = isActive ? `${session.uri} (active)` : session.uri;
+    switch (session.state) {
+      case RenodeState.CONNECTING:
+        item.tooltip = session.reconnecting
+          ? `Reconnecting to ${session.uri} (attempt ${session.reconnectAttempt})`
+          : `Connecting to ${session.uri}`;
+        item.iconPath = new vscode.ThemeIcon('sync~spin');
+        break;
+      case RenodeState.DISCONNECTED:
+        item.tooltip = `Not connected (${session.uri})`;
+        item.iconPath = new vscode.ThemeIcon('circle-large-outline');
+        break;
+      default:
+        item.tooltip = `Connected to ${session.uri} (${session.state})`;
+        item.iconPath = new vscode.ThemeIcon('pass-filled');
+        break;
+    }
+
+    // Used by `view/item/context` menus to decide which actions to show
+    // A connecting session counts as connected, so that it can be disconnected
+    const contextValue = [
+      'renodeSession',
+      session.state === RenodeState.DISCONNECTED ? 'disconnected' : 'connected',
+    ];
+    if (isActive) {
+      contextValue.push('active');
+    }
+    if (session.name !== DEFAULT_SESSION_NAME) {
+      contextValue.push('removable');
+    }
+    item.contextValue = contextValue.join('.');
+    return item;
+  }
+
+  getChildren(element?: RenodeSession): RenodeSession[] {
+    if (element !== undefined) {
+      return [];
+    }
+    return this.renodeCtx.listSessions();
+  }
+}
+
+export function registerSessionCommands(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+) {
+  const connectCommand = vscode.commands.registerCommand(
+    'renode.connectSession',
+    (session: RenodeSession) => connectSessionCommandHandler(session),
+  );
+  subscriptions.push(connectCommand);
+
+  const disconnectCommand = vscode.commands.registerCommand(
+    'renode.disconnectSession',
+    (session: RenodeSession) => session.disconnect(),
+  );
+  subscriptions.push(disconnectCommand);
+
+  const makeActiveCommand = vscode.commands.registerCommand(
+    'renode.makeSessionActive',
+    (session?: RenodeSession) =>
+      makeSessionActiveCommandHandler(pluginCtx, session),
+  );
+  subscriptions.push(makeActiveCommand);
+
+  const removeCommand = vscode.commands.registerCommand(
+    'renode.removeSession',
+    (session: RenodeSession) => pluginCtx.removeSession(session.name),
+  );
+  subscriptions.push(removeCommand);
+}
+
+async function connectSessionCommandHandler(session: RenodeSession) {
+  await session.connect();
+  if (!session.socketReady) {
+    vscode.window.showErrorMessage(
+      `Could not connect to Renode session '${session.name}'`,
+    );
+  }
+}
+
+async function makeSessionActiveCommandHandler(
+  pluginCtx: RenodePluginContext,
+  session?: RenodeSession,
+) {
+  // Invoked from the command palette, so let the user pick the session
+  if (session === undefined) {
+    const picked = await vscode.window.showQuickPick(
+      pluginCtx.listSessions().map(s => ({
+        label: s.name,
+        description: s.uri,
+        detail: s.socketReady ? 'Connected' : 'Not connected',
+      })),
+      {
+        canPickMany: false,
+        title: 'Renode session',
+      },
+    );
+    if (picked === undefined) {
+      return;
+    }
+    session = pluginCtx.getSession(picked.label);
+  }
+
+  if (session !== undefined) {
+    pluginCtx.setActiveSession(session.name);
+  }
+}
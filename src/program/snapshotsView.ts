@@ -0,0 +1,293 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { RenodePluginContext } from '../context';
+import { RenodeSession, RenodeState } from '../session';
+import { getTimeSourceInfo } from './runControl';
+
+const SNAPSHOT_EXTENSION = '.save';
+// Renode snapshots are opaque, so what we know about them is kept next to them
+const METADATA_EXTENSION = '.json';
+
+// Custom request handled by `RenodeGdbDebugSession`
+export const LOAD_SNAPSHOT_REQUEST = 'renode-load-snapshot';
+
+export interface LoadSnapshotArguments {
+  // Renode session the snapshot should be loaded in
+  session: string;
+  // Path of the snapshot relative to the session's workspace, which Renode runs in
+  path: string;
+}
+
+interface SnapshotMetadata {
+  virtualTime?: string;
+  machines?: string[];
+  created?: string;
+}
+
+export interface Snapshot {
+  name: string;
+  // Path relative to the session's workspace
+  file: string;
+  metadata: SnapshotMetadata;
+}
+
+export class SnapshotsViewProvider
+  implements vscode.TreeDataProvider<Snapshot>, vscode.Disposable
+{
+  public static readonly viewType = 'renode-snapshots';
+  public onDidChangeTreeData: vscode.Event<void>;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [this.changeEmitter];
+
+  constructor(private renodeCtx: RenodePluginContext) {
+    this.onDidChangeTreeData = this.changeEmitter.event;
+
+    renodeCtx.onDidChangeState(
+      event => {
+        if (
+          event.session === renodeCtx.activeSession &&
+          (event.state === RenodeState.CONNECTED ||
+            event.state === RenodeState.DISCONNECTED)
+        ) {
+          this.refresh();
+        }
+      },
+      undefined,
+      this.disposables,
+    );
+  }
+
+  refresh() {
+    this.changeEmitter.fire();
+  }
+
+  getTreeItem(snapshot: Snapshot): vscode.TreeItem {
+    const { virtualTime, machines, created } = snapshot.metadata;
+    const item = new vscode.TreeItem(snapshot.name);
+    item.id = snapshot.file;
+    item.description = virtualTime;
+    item.iconPath = new vscode.ThemeIcon('history');
+    item.contextValue = 'renodeSnapshot';
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${snapshot.file}**\n\n`);
+    tooltip.appendMarkdown(`Virtual time: ${virtualTime ?? 'unknown'}\n\n`);
+    tooltip.appendMarkdown(
+      `Machines: ${machines?.join(', ') || 'unknown'}\n\n`,
+    );
+    if (created !== undefined) {
+      tooltip.appendMarkdown(
+        `Saved: ${new Date(created).toLocaleString()}\n\n`,
+      );
+    }
+    item.tooltip = tooltip;
+    return item;
+  }
+
+  async getChildren(element?: Snapshot): Promise<Snapshot[]> {
+    if (element !== undefined || !this.renodeCtx.socketReady) {
+      return [];
+    }
+    return listSnapshots(this.renodeCtx.activeSession);
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+export function registerSnapshotCommands(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+  provider: SnapshotsViewProvider,
+) {
+  const saveCommand = vscode.commands.registerCommand(
+    'renode.saveSnapshot',
+    () => saveSnapshotCommandHandler(pluginCtx, provider),
+  );
+  subscriptions.push(saveCommand);
+
+  const loadCommand = vscode.commands.registerCommand(
+    'renode.loadSnapshot',
+    (snapshot?: Snapshot) => loadSnapshotCommandHandler(pluginCtx, snapshot),
+  );
+  subscriptions.push(loadCommand);
+
+  const refreshCommand = vscode.commands.registerCommand(
+    'renode.refreshSnapshots',
+    () => provider.refresh(),
+  );
+  subscriptions.push(refreshCommand);
+}
+
+async function saveSnapshotCommandHandler(
+  pluginCtx: RenodePluginContext,
+  provider: SnapshotsViewProvider,
+) {
+  if (!pluginCtx.socketReady) {
+    vscode.window.showErrorMessage('Renode not connected!');
+    return;
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const name = await vscode.window.showInputBox({
+    title: 'Save Renode snapshot',
+    prompt: 'Snapshot name',
+    value: `snapshot-${timestamp}`,
+    validateInput: value =>
+      /^[\w.-]+$/.test(value) ? undefined : 'Invalid snapshot name',
+  });
+  if (name === undefined) {
+    return;
+  }
+
+  const session = pluginCtx.activeSession;
+  const dir = snapshotDirectory();
+  const file = `${dir}/${name}${SNAPSHOT_EXTENSION}`;
+  try {
+    await session.createDirectory(dir).catch(() => {
+      // Most likely exists already
+    });
+
+    const [machines, info] = await Promise.all([
+      session.getMachines(),
+      getTimeSourceInfo(pluginCtx),
+    ]);
+    const metadata: SnapshotMetadata = {
+      virtualTime: info.elapsedVirtualTime,
+      machines,
+      created: new Date().toISOString(),
+    };
+    await session.execMonitor([`Save @${file}`]);
+    await writeMetadata(session, file, metadata);
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to save snapshot: ${err}`);
+    return;
+  }
+
+  provider.refresh();
+  vscode.window.showInformationMessage(`Saved Renode snapshot ${file}`);
+}
+
+async function loadSnapshotCommandHandler(
+  pluginCtx: RenodePluginContext,
+  snapshot?: Snapshot,
+) {
+  if (!pluginCtx.socketReady) {
+    vscode.window.showErrorMessage('Renode not connected!');
+    return;
+  }
+  const session = pluginCtx.activeSession;
+
+  // Invoked from the command palette, so let the user pick the snapshot
+  if (snapshot === undefined) {
+    const snapshots = await listSnapshots(session);
+    const picked = await vscode.window.showQuickPick(
+      snapshots.map(s => ({
+        label: s.name,
+        description: s.metadata.virtualTime,
+        detail: s.metadata.machines?.join(', '),
+        snapshot: s,
+      })),
+      {
+        canPickMany: false,
+        title: 'Load Renode snapshot',
+      },
+    );
+    if (picked === undefined) {
+      return;
+    }
+    snapshot = picked.snapshot;
+  }
+
+  try {
+    // Loading a snapshot replaces the machines, so running debuggers have to reconnect
+    const handled = await loadInDebugSession(pluginCtx.getDebugSessions(), {
+      session: session.name,
+      path: snapshot.file,
+    });
+    if (!handled) {
+      await session.execMonitor([`Load @${snapshot.file}`]);
+      session.setEmulationState(RenodeState.PAUSED);
+    }
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to load snapshot: ${err}`);
+    return;
+  }
+  // The snapshot replaced all machines
+  vscode.commands.executeCommand('renode.machines.refresh');
+  vscode.window.showInformationMessage(
+    `Loaded Renode snapshot ${snapshot.name}`,
+  );
+}
+
+// *** Utilities ***
+
+// Returns false if no debugger is attached to the Renode session
+async function loadInDebugSession(
+  debugSessions: vscode.DebugSession[],
+  args: LoadSnapshotArguments,
+): Promise<boolean> {
+  for (const debugSession of debugSessions) {
+    const res = await debugSession.customRequest(LOAD_SNAPSHOT_REQUEST, args);
+    if (res?.handled) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function snapshotDirectory(): string {
+  const cfg = vscode.workspace.getConfiguration('renode');
+  return cfg.get<string>('snapshotDirectory') || 'snapshots';
+}
+
+async function listSnapshots(session: RenodeSession): Promise<Snapshot[]> {
+  const dir = snapshotDirectory();
+  let files: any[];
+  try {
+    files = await session.listFiles(dir);
+  } catch {
+    // No snapshots were saved yet
+    return [];
+  }
+
+  const snapshots = files
+    .filter(file => file.isfile && file.name.endsWith(SNAPSHOT_EXTENSION))
+    .map(file => ({
+      name: file.name.slice(0, -SNAPSHOT_EXTENSION.length),
+      file: `${dir}/${file.name}`,
+      metadata: {},
+    }));
+  await Promise.all(
+    snapshots.map(async snapshot => {
+      snapshot.metadata = await readMetadata(session, snapshot.file);
+    }),
+  );
+  return snapshots.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function readMetadata(
+  session: RenodeSession,
+  file: string,
+): Promise<SnapshotMetadata> {
+  try {
+    const content = await session.downloadFile(file + METADATA_EXTENSION);
+    return JSON.parse(new TextDecoder().decode(content));
+  } catch {
+    // Saved outside of the extension
+    return {};
+  }
+}
+
+async function writeMetadata(
+  session: RenodeSession,
+  file: string,
+  metadata: SnapshotMetadata,
+) {
+  const content = new TextEncoder().encode(JSON.stringify(metadata, null, 2));
+  await session.sendFileFromContent(file + METADATA_EXTENSION, content);
+}
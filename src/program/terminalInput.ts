@@ -0,0 +1,192 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import {
+  RenodeWebSocketPseudoTerminal,
+  getRenodePseudoterminal,
+} from '../console';
+import { delay } from '../utils';
+
+// Entry of the `renode.terminalMacros` setting
+interface TerminalMacro {
+  label: string;
+  text: string;
+  // Limits the macro to terminals whose name contains this, e.g. `uart0`
+  terminal?: string;
+}
+
+export function registerTerminalInputCommands(subscriptions: any[]) {
+  const macroCommand = vscode.commands.registerCommand(
+    'renode.sendTerminalMacro',
+    () => sendMacroCommandHandler(),
+  );
+  subscriptions.push(macroCommand);
+
+  const sendFileCommand = vscode.commands.registerCommand(
+    'renode.sendFileToTerminal',
+    () => sendFileCommandHandler(),
+  );
+  subscriptions.push(sendFileCommand);
+}
+
+async function sendMacroCommandHandler() {
+  const target = activeInputTerminal();
+  if (target === undefined) {
+    return;
+  }
+  const [terminal, pty] = target;
+
+  const macros = (
+    vscode.workspace
+      .getConfiguration('renode')
+      .get<TerminalMacro[]>('terminalMacros') ?? []
+  ).filter(
+    macro =>
+      macro.terminal === undefined || terminal.name.includes(macro.terminal),
+  );
+  if (macros.length === 0) {
+    const configure = 'Configure';
+    const choice = await vscode.window.showInformationMessage(
+      `There are no macros for ${terminal.name}`,
+      configure,
+    );
+    if (choice === configure) {
+      vscode.commands.executeCommand(
+        'workbench.action.openSettings',
+        'renode.terminalMacros',
+      );
+    }
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    macros.map(macro => ({
+      label: macro.label,
+      detail: JSON.stringify(macro.text),
+      macro,
+    })),
+    { title: `Macro to send to ${terminal.name}` },
+  );
+  if (picked !== undefined) {
+    pty.sendText(picked.macro.text);
+  }
+}
+
+async function sendFileCommandHandler() {
+  const target = activeInputTerminal();
+  if (target === undefined) {
+    return;
+  }
+  const [terminal, pty] = target;
+
+  const file = await vscode.window.showOpenDialog({
+    title: `File to send to ${terminal.name}`,
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    canSelectMany: false,
+  });
+  if (file === undefined) {
+    return;
+  }
+  const mode = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'Text',
+        detail: 'Sent line by line, with line endings translated',
+        binary: false,
+      },
+      {
+        label: 'Binary',
+        detail: 'Sent as it is, byte by byte if there is a delay between bytes',
+        binary: true,
+      },
+    ],
+    { title: 'Send the file as' },
+  );
+  if (mode === undefined) {
+    return;
+  }
+
+  let content: Uint8Array;
+  try {
+    content = await vscode.workspace.fs.readFile(file[0]);
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to read ${file[0].fsPath}: ${err}`);
+    return;
+  }
+
+  const cfg = vscode.workspace.getConfiguration('renode');
+  const byteDelay = cfg.get<number>('sendFileByteDelay') ?? 0;
+  const lineDelay = cfg.get<number>('sendFileLineDelay') ?? 0;
+  // Without a delay, binary files are sent at once
+  const chunks = mode.binary
+    ? splitBytes(content, byteDelay > 0 ? 1 : 0)
+    : new TextDecoder().decode(content).split(/(?<=\n)/);
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Sending ${file[0].path.split('/').pop()} to ${terminal.name}`,
+      cancellable: true,
+    },
+    (progress, token) =>
+      sendChunks(
+        pty,
+        chunks,
+        mode.binary ? byteDelay : lineDelay,
+        progress,
+        token,
+      ),
+  );
+}
+
+// *** Utilities ***
+
+function activeInputTerminal():
+  | [vscode.Terminal, RenodeWebSocketPseudoTerminal]
+  | undefined {
+  const terminal = vscode.window.activeTerminal;
+  const pty = terminal && getRenodePseudoterminal(terminal);
+  if (pty === undefined || !pty.acceptsInput) {
+    vscode.window.showErrorMessage(
+      'The active terminal is not a Renode one taking input',
+    );
+    return undefined;
+  }
+  return [terminal!, pty];
+}
+
+// Splits bytes into chunks of the given size, or returns them whole for 0
+function splitBytes(bytes: Uint8Array, size: number): Uint8Array[] {
+  if (size === 0) {
+    return [bytes];
+  }
+  const chunks = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    chunks.push(bytes.subarray(i, i + size));
+  }
+  return chunks;
+}
+
+async function sendChunks(
+  pty: RenodeWebSocketPseudoTerminal,
+  chunks: (string | Uint8Array)[],
+  delayMs: number,
+  progress: vscode.Progress<{ increment: number }>,
+  token: vscode.CancellationToken,
+) {
+  for (const [i, chunk] of chunks.entries()) {
+    if (token.isCancellationRequested) {
+      return;
+    }
+    if (i > 0 && delayMs > 0) {
+      await delay(delayMs);
+    }
+    if (typeof chunk === 'string') {
+      pty.sendText(chunk);
+    } else {
+      pty.sendBytes(chunk);
+    }
+    progress.report({ increment: 100 / chunks.length });
+  }
+}
@@ -0,0 +1,174 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { RenodePluginContext } from '../context';
+import { getRenodePseudoterminal } from '../console';
+import {
+  RESOLVE_ADDRESS_REQUEST,
+  ResolveAddressArguments,
+  SourceLine,
+} from './logDiagnostics';
+
+// Addresses as printed by fault handlers, shorter numbers are rarely program counters
+const ADDRESS_PATTERN = /\b0x[0-9a-f]{4,16}\b/gi;
+// Source locations as printed by asserts, e.g. `src/main.c:42` or `C:\fw\main.c:42:7`
+const SOURCE_LINE_PATTERN =
+  /((?:[a-z]:)?[\w./\\-]*\w\.(?:c|cc|cpp|cxx|h|hh|hpp|s|rs|zig|ino)):(\d+)(?::\d+)?/gi;
+
+type RenodeTerminalLink = vscode.TerminalLink &
+  ({ address: string } | { source: SourceLine });
+
+export function registerTerminalLinks(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+) {
+  const provider = new RenodeTerminalLinkProvider(pluginCtx);
+  subscriptions.push(vscode.window.registerTerminalLinkProvider(provider));
+}
+
+// Links addresses and source locations printed to UART and log terminals
+// to the source of the program being debugged
+class RenodeTerminalLinkProvider
+  implements vscode.TerminalLinkProvider<RenodeTerminalLink>
+{
+  constructor(private pluginCtx: RenodePluginContext) {}
+
+  provideTerminalLinks(
+    context: vscode.TerminalLinkContext,
+  ): RenodeTerminalLink[] {
+    if (getRenodePseudoterminal(context.terminal) === undefined) {
+      return [];
+    }
+
+    const links: RenodeTerminalLink[] = [];
+    for (const match of context.line.matchAll(SOURCE_LINE_PATTERN)) {
+      const [text, path, line] = match;
+      links.push({
+        startIndex: match.index!,
+        length: text.length,
+        tooltip: 'Open source',
+        source: { path, line: Number(line) },
+      });
+    }
+    // Addresses can only be resolved by GDB
+    if (this.pluginCtx.getDebugSessions().length > 0) {
+      for (const match of context.line.matchAll(ADDRESS_PATTERN)) {
+        links.push({
+          startIndex: match.index!,
+          length: match[0].length,
+          tooltip: 'Open the source line of the address',
+          address: match[0],
+        });
+      }
+    }
+    return links;
+  }
+
+  async handleTerminalLink(link: RenodeTerminalLink) {
+    try {
+      const source =
+        'address' in link
+          ? await this.resolveAddress(link.address)
+          : { ...link.source, path: this.mapPath(link.source.path) };
+      if (source === undefined) {
+        vscode.window.showWarningMessage(
+          `No source line found for ${'address' in link ? link.address : link.source.path}`,
+        );
+        return;
+      }
+
+      const uri = await findSourceFile(source.path);
+      if (uri === undefined) {
+        vscode.window.showWarningMessage(`Could not find ${source.path}`);
+        return;
+      }
+      const position = new vscode.Position(Math.max(source.line - 1, 0), 0);
+      await vscode.window.showTextDocument(uri, {
+        selection: new vscode.Range(position, position),
+      });
+    } catch (err) {
+      vscode.window.showErrorMessage(`Failed to open the link: ${err}`);
+    }
+  }
+
+  private async resolveAddress(
+    address: string,
+  ): Promise<SourceLine | undefined> {
+    const args: ResolveAddressArguments = {
+      session: this.pluginCtx.activeSession.name,
+      address,
+    };
+    let error: unknown;
+    for (const debugSession of this.pluginCtx.getDebugSessions()) {
+      try {
+        const source: SourceLine | undefined = await debugSession.customRequest(
+          RESOLVE_ADDRESS_REQUEST,
+          args,
+        );
+        if (source?.path) {
+          return source;
+        }
+      } catch (err) {
+        error = err;
+      }
+    }
+    if (error !== undefined) {
+      throw error;
+    }
+    return undefined;
+  }
+
+  // Applies the `pathMappings` of the debugged programs, as paths printed
+  // by the firmware are the ones it was built with
+  private mapPath(sourcePath: string): string {
+    for (const debugSession of this.pluginCtx.getDebugSessions()) {
+      const mappings = Object.entries<string>(
+        debugSession.configuration.pathMappings ?? {},
+      );
+      for (const [their, our] of mappings) {
+        if (sourcePath.startsWith(their)) {
+          return our + sourcePath.slice(their.length);
+        }
+      }
+    }
+    return sourcePath;
+  }
+}
+
+// *** Utilities ***
+
+// Looks for the file as it is, in workspace folders and finally anywhere in the workspace,
+// as relative paths are relative to where the firmware was built
+async function findSourceFile(
+  sourcePath: string,
+): Promise<vscode.Uri | undefined> {
+  const normalized = sourcePath.replace(/\\/g, '/');
+  const candidates = [
+    vscode.Uri.file(sourcePath),
+    ...(vscode.workspace.workspaceFolders ?? []).map(folder =>
+      vscode.Uri.joinPath(folder.uri, normalized),
+    ),
+  ];
+  for (const candidate of candidates) {
+    try {
+      await vscode.workspace.fs.stat(candidate);
+      return candidate;
+    } catch {
+      // Tried further
+    }
+  }
+
+  const suffix = normalized.replace(/^(\.\.?\/)+/, '').replace(/^\/+/, '');
+  const found = await vscode.workspace.findFiles(
+    `**/${suffix.split('/').pop()}`,
+    undefined,
+    20,
+  );
+  // A file of the same name is only a guess if there is no other
+  return (
+    found.find(uri => uri.path.endsWith(`/${suffix}`)) ??
+    (found.length === 1 ? found[0] : undefined)
+  );
+}
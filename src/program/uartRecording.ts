@@ -0,0 +1,286 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import path from 'path';
+import { DEFAULT_SESSION_NAME, RenodePluginContext } from '../context';
+import { RenodeSession } from '../session';
+import {
+  RenodeWebSocketPseudoTerminal,
+  getRenodePseudoterminal,
+} from '../console';
+import { VirtualTimeStamper } from './virtualTime';
+
+// Recordings are saved at most this often, as only local files can be appended to in place
+const FLUSH_INTERVAL = 1000;
+const RECORDINGS_DIRECTORY = 'renode-recordings';
+
+type RecordingLocation = 'workspace' | 'renode';
+
+// Appends text to a file of the host, given only by the desktop version of the extension
+export type LocalFileAppender = (path: string, text: string) => Promise<void>;
+
+let appendLocalFile: LocalFileAppender | undefined;
+
+// Recordings in progress, by the terminal they record
+const recorders = new Map<vscode.Terminal, UartRecorder>();
+
+export function registerUartRecordingCommands(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+  localFileAppender?: LocalFileAppender,
+) {
+  appendLocalFile = localFileAppender;
+
+  const toggleCommand = vscode.commands.registerCommand(
+    'renode.toggleTerminalRecording',
+    () => toggleRecordingCommandHandler(pluginCtx),
+  );
+  subscriptions.push(toggleCommand);
+
+  subscriptions.push(
+    vscode.window.onDidCloseTerminal(terminal => stopUartRecording(terminal)),
+  );
+}
+
+async function toggleRecordingCommandHandler(pluginCtx: RenodePluginContext) {
+  const terminal = vscode.window.activeTerminal;
+  if (terminal === undefined || !getRenodePseudoterminal(terminal)) {
+    vscode.window.showErrorMessage('The active terminal is not a Renode one');
+    return;
+  }
+
+  const recorder = recorders.get(terminal);
+  if (recorder !== undefined) {
+    await stopUartRecording(terminal);
+    vscode.window.showInformationMessage(
+      `Saved the recording of ${terminal.name} to ${recorder.uri.toString(true)}`,
+    );
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'Workspace',
+        detail: `Saves to the ${RECORDINGS_DIRECTORY} directory of the workspace`,
+        location: 'workspace' as RecordingLocation,
+      },
+      {
+        label: 'Renode',
+        detail: 'Saves to the filesystem of the Renode session',
+        location: 'renode' as RecordingLocation,
+      },
+    ],
+    { title: `Where to save the recording of ${terminal.name}` },
+  );
+  if (picked === undefined) {
+    return;
+  }
+
+  try {
+    const session = pluginCtx.activeSession;
+    const uri = defaultRecordingUri(session, terminal.name, picked.location);
+    await startUartRecording(session, terminal, uri);
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to start recording: ${err}`);
+  }
+}
+
+// Records the output of a terminal created by the extension, line by line
+export async function startUartRecording(
+  session: RenodeSession,
+  terminal: vscode.Terminal,
+  uri: vscode.Uri,
+) {
+  const pty = getRenodePseudoterminal(terminal);
+  if (pty === undefined) {
+    throw new Error(`${terminal.name} is not a Renode terminal`);
+  }
+
+  await stopUartRecording(terminal);
+  try {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+  } catch {
+    // Either it exists already or writing the file fails as well
+  }
+  recorders.set(terminal, new UartRecorder(session, pty, uri));
+}
+
+export async function stopUartRecording(terminal: vscode.Terminal) {
+  const recorder = recorders.get(terminal);
+  recorders.delete(terminal);
+  await recorder?.stop();
+}
+
+// Resolves the `record` option of a `terminals` entry in `launch.json`,
+// which is either `true` or a path relative to `cwd` or a URI, e.g. of `renodehyp`
+export function recordingUri(
+  session: RenodeSession,
+  name: string,
+  record: true | string,
+  cwd: string,
+): vscode.Uri {
+  if (record === true) {
+    return defaultRecordingUri(session, name, 'workspace');
+  }
+  // Drive letters are not URI schemes
+  if (/^[a-z][\w+.-]+:/i.test(record)) {
+    return vscode.Uri.parse(record);
+  }
+  return vscode.Uri.file(
+    path.isAbsolute(record) ? record : path.join(cwd, record),
+  );
+}
+
+function defaultRecordingUri(
+  session: RenodeSession,
+  name: string,
+  location: RecordingLocation,
+): vscode.Uri {
+  const time = new Date().toISOString().replace(/[:.]/g, '-');
+  const file = `${name.replace(/\W+/g, '-').replace(/^-|-$/g, '')}-${time}.log`;
+
+  if (location === 'renode') {
+    return vscode.Uri.from({
+      scheme: 'renodehyp',
+      authority: session.name === DEFAULT_SESSION_NAME ? '' : session.name,
+      path: `/${RECORDINGS_DIRECTORY}/${file}`,
+    });
+  }
+
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (folder === undefined) {
+    throw new Error('there is no workspace folder to save the recording to');
+  }
+  return vscode.Uri.joinPath(folder.uri, RECORDINGS_DIRECTORY, file);
+}
+
+interface RecordedLine {
+  hostTime: string;
+  text: string;
+}
+
+// Writes each line received by a terminal with the host time and,
+// if the simulation is running, the virtual time
+class UartRecorder {
+  // Lines not saved yet
+  private lines: string[] = [];
+  // Partial line received at the end of the last message
+  private partial = '';
+  private stamper: VirtualTimeStamper<RecordedLine>;
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  // Flushes run one at a time, so that lines are appended in order
+  private flushing = Promise.resolve();
+  // Whether the file was created, replacing the one from an earlier recording
+  private created = false;
+  private failed = false;
+  private subscription: vscode.Disposable;
+
+  constructor(
+    session: RenodeSession,
+    pty: RenodeWebSocketPseudoTerminal,
+    public readonly uri: vscode.Uri,
+  ) {
+    this.stamper = new VirtualTimeStamper(session, (lines, virtualTime) =>
+      this.onStamped(lines, virtualTime),
+    );
+    this.subscription = pty.onDidReceiveData(data => this.onData(data));
+  }
+
+  async stop() {
+    this.subscription.dispose();
+    clearTimeout(this.flushTimer);
+    const pending = this.stamper.takePending();
+    if (this.partial !== '') {
+      pending.push(this.stamp(this.partial));
+      this.partial = '';
+    }
+    this.record(pending);
+    await this.flush();
+  }
+
+  private onData(data: string) {
+    const lines = (this.partial + data.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, ''))
+      .replace(/\r\n?/g, '\n')
+      .split('\n');
+    this.partial = lines.pop()!;
+    if (lines.length > 0) {
+      this.stamper.push(lines.map(line => this.stamp(line)));
+    }
+  }
+
+  private onStamped(lines: RecordedLine[], virtualTime?: string) {
+    this.record(lines, virtualTime);
+    this.flushTimer ??= setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush();
+    }, FLUSH_INTERVAL);
+  }
+
+  private stamp(text: string): RecordedLine {
+    return { hostTime: new Date().toISOString(), text };
+  }
+
+  private record(lines: RecordedLine[], virtualTime?: string) {
+    const virtual = virtualTime !== undefined ? ` [${virtualTime}]` : '';
+    this.lines.push(
+      ...lines.map(line => `[${line.hostTime}]${virtual} ${line.text}`),
+    );
+  }
+
+  private flush(): Promise<void> {
+    this.flushing = this.flushing.then(() => this.write());
+    return this.flushing;
+  }
+
+  private async write() {
+    const lines = this.lines.splice(0);
+    const text = lines.length > 0 ? `${lines.join('\n')}\n` : '';
+    try {
+      if (this.created) {
+        await appendToFile(this.uri, text);
+      } else {
+        await vscode.workspace.fs.writeFile(
+          this.uri,
+          new TextEncoder().encode(text),
+        );
+        this.created = true;
+      }
+      this.failed = false;
+    } catch (err) {
+      // Reported once, saving is retried with the next lines
+      this.lines.unshift(...lines);
+      if (!this.failed) {
+        vscode.window.showErrorMessage(
+          `Failed to save the recording to ${this.uri.toString(true)}: ${err}`,
+        );
+      }
+      this.failed = true;
+    }
+  }
+}
+
+// *** Utilities ***
+
+// `vscode.workspace.fs` can only write whole files, so files which are not local, e.g. of
+// `renodehyp`, are read back instead of keeping all the recorded lines in memory
+async function appendToFile(uri: vscode.Uri, text: string) {
+  if (uri.scheme === 'file' && appendLocalFile !== undefined) {
+    await appendLocalFile(uri.fsPath, text);
+    return;
+  }
+
+  let written = new Uint8Array();
+  try {
+    written = await vscode.workspace.fs.readFile(uri);
+  } catch {
+    // Created by the first write
+  }
+  const appended = new TextEncoder().encode(text);
+  const content = new Uint8Array(written.length + appended.length);
+  content.set(written);
+  content.set(appended, written.length);
+  await vscode.workspace.fs.writeFile(uri, content);
+}
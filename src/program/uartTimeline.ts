@@ -0,0 +1,422 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import WebSocket from 'isomorphic-ws';
+import { RenodePluginContext } from '../context';
+import { RenodeSession } from '../session';
+import { TABLE_VIEW_STYLES } from './logViewer';
+import { VirtualTimeStamper } from './virtualTime';
+
+// Older lines are dropped, so that chatty UARTs do not exhaust memory
+const MAX_LINES = 10_000;
+// Output not ending with a new line, e.g. a prompt, is shown after this long
+const PARTIAL_LINE_IDLE = 500;
+
+interface TimelineLine {
+  source: string;
+  time: string;
+  // Virtual time when the line arrived, Renode does not tell when it was sent
+  virtualTime?: string;
+  text: string;
+}
+
+interface UartSource {
+  machine: string;
+  uart: string;
+}
+
+export function registerUartTimelineCommands(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+) {
+  const timelineCommand = vscode.commands.registerCommand(
+    'renode.openUartTimeline',
+    () => openUartTimelineCommandHandler(pluginCtx),
+  );
+  subscriptions.push(timelineCommand);
+}
+
+async function openUartTimelineCommandHandler(pluginCtx: RenodePluginContext) {
+  if (!pluginCtx.emulationActive) {
+    vscode.window.showErrorMessage('The simulation is not running');
+    return;
+  }
+
+  try {
+    const machines = await pluginCtx.getMachines();
+    const uarts = (
+      await Promise.all(
+        machines.map(async machine =>
+          (await pluginCtx.getUarts(machine)).map(uart => ({
+            label: uart,
+            description: machine,
+            picked: true,
+            source: { machine, uart },
+          })),
+        ),
+      )
+    ).flat();
+    if (uarts.length === 0) {
+      vscode.window.showErrorMessage('There are no UARTs');
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(uarts, {
+      title: 'UARTs to show in the timeline',
+      canPickMany: true,
+    });
+    if (picked === undefined || picked.length === 0) {
+      return;
+    }
+    await UartTimelinePanel.show(
+      pluginCtx.activeSession,
+      picked.map(p => p.source),
+    );
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to open the UART timeline: ${err}`);
+  }
+}
+
+// Interleaves lines received from multiple UARTs, possibly of different machines,
+// in the order they arrive in
+export class UartTimelinePanel implements vscode.Disposable {
+  public static readonly viewType = 'renode-uart-timeline';
+  private static current?: UartTimelinePanel;
+  private lines: TimelineLine[] = [];
+  private sources: string[] = [];
+  private sockets: WebSocket[] = [];
+  private stamper: VirtualTimeStamper<TimelineLine>;
+  // Sockets close and virtual time queries complete after the panel is gone
+  private disposed = false;
+  private disposables: vscode.Disposable[] = [];
+
+  private webviewStyles = `${TABLE_VIEW_STYLES}
+  td.text {
+    white-space: pre-wrap;
+    width: 100%;
+  }
+  td.time, td.virtualTime {
+    opacity: 0.7;
+  }
+  .color-0 { color: var(--vscode-terminal-ansiBrightBlue); }
+  .color-1 { color: var(--vscode-terminal-ansiBrightGreen); }
+  .color-2 { color: var(--vscode-terminal-ansiBrightMagenta); }
+  .color-3 { color: var(--vscode-terminal-ansiBrightYellow); }
+  .color-4 { color: var(--vscode-terminal-ansiBrightCyan); }
+  .color-5 { color: var(--vscode-terminal-ansiBrightRed); }
+`;
+
+  private webviewScript = `
+  const vscode = acquireVsCodeApi();
+  const MAX_LINES = ${MAX_LINES};
+  const COLORS = 6;
+  let lines = [];
+  let sources = [];
+
+  function matches(line) {
+    const shown = [...document.querySelectorAll('.source:checked')].map(e => e.value);
+    const search = document.getElementById('search').value.toLowerCase();
+    return shown.includes(line.source) &&
+      (search === '' || line.text.toLowerCase().includes(search));
+  }
+
+  function row(line) {
+    const tr = document.createElement('tr');
+    tr.className = 'color-' + (sources.indexOf(line.source) % COLORS);
+    tr.line = line;
+    for (const field of ['time', 'virtualTime', 'source', 'text']) {
+      const td = document.createElement('td');
+      td.className = field;
+      td.textContent = line[field] ?? '';
+      tr.appendChild(td);
+    }
+    return tr;
+  }
+
+  function setSources(newSources) {
+    sources = newSources;
+    document.getElementById('sources').replaceChildren(...sources.map((source, i) => {
+      const label = document.createElement('label');
+      label.className = 'color-' + (i % COLORS);
+      const input = document.createElement('input');
+      input.type = 'checkbox';
+      input.className = 'source';
+      input.value = source;
+      input.checked = true;
+      input.onchange = render;
+      label.append(input, source);
+      return label;
+    }));
+  }
+
+  function append(newLines) {
+    const body = document.getElementById('lines');
+    const atBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 4;
+    for (const line of newLines) {
+      if (matches(line)) {
+        body.appendChild(row(line));
+      }
+    }
+    while (body.childElementCount > MAX_LINES) {
+      body.removeChild(body.firstChild);
+    }
+    if (atBottom) {
+      window.scrollTo(0, document.body.scrollHeight);
+    }
+  }
+
+  function render() {
+    document.getElementById('lines').replaceChildren();
+    append(lines);
+  }
+
+  function clearLines() {
+    lines = [];
+    render();
+    vscode.postMessage({ command: 'clear' });
+  }
+
+  function exportLines() {
+    vscode.postMessage({
+      command: 'export',
+      lines: lines.filter(matches).map(line =>
+        '[' + line.time + ']' + (line.virtualTime ? ' [' + line.virtualTime + ']' : '') +
+        ' ' + line.source + ': ' + line.text),
+    });
+  }
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    switch (message.command) {
+      case 'reset':
+        setSources(message.sources);
+        lines = message.lines;
+        render();
+        break;
+      case 'lines':
+        lines.push(...message.lines);
+        lines.splice(0, lines.length - MAX_LINES);
+        append(message.lines);
+        break;
+      case 'status':
+        document.getElementById('status').textContent = message.text;
+        break;
+    }
+  });
+
+  window.addEventListener('load', () => vscode.postMessage({ command: 'ready' }));
+`;
+
+  // Replaces the UARTs shown by an open panel, keeping the lines received so far
+  static async show(session: RenodeSession, uarts: UartSource[]) {
+    if (UartTimelinePanel.current === undefined) {
+      const panel = vscode.window.createWebviewPanel(
+        UartTimelinePanel.viewType,
+        'Renode UART Timeline',
+        vscode.ViewColumn.Active,
+        { enableScripts: true },
+      );
+      UartTimelinePanel.current = new UartTimelinePanel(panel, session);
+    } else {
+      UartTimelinePanel.current.panel.reveal();
+      UartTimelinePanel.current.session = session;
+      UartTimelinePanel.current.stamper.session = session;
+    }
+    await UartTimelinePanel.current.connect(uarts);
+  }
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private session: RenodeSession,
+  ) {
+    this.stamper = new VirtualTimeStamper(session, (lines, virtualTime) =>
+      this.onStamped(lines, virtualTime),
+    );
+    panel.webview.html = this.getHtmlForWebview();
+    panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+    panel.webview.onDidReceiveMessage(
+      message => this.onMessage(message),
+      undefined,
+      this.disposables,
+    );
+  }
+
+  dispose() {
+    UartTimelinePanel.current = undefined;
+    this.disposed = true;
+    this.closeSockets();
+    this.panel.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private async connect(uarts: UartSource[]) {
+    this.closeSockets();
+    const names = uarts.map(({ machine, uart }) => `${uart} (${machine})`);
+    this.sources = [...new Set([...this.sources, ...names])];
+    this.reset();
+
+    const failed: string[] = [];
+    // One at a time, as each connection creates a socket in Renode
+    for (const [i, { machine, uart }] of uarts.entries()) {
+      try {
+        const socket = await this.session.connectUart(machine, uart);
+        this.sockets.push(socket);
+        this.listen(socket, names[i]);
+      } catch {
+        failed.push(names[i]);
+      }
+    }
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(
+        `Failed to connect to ${failed.join(', ')}`,
+      );
+    }
+    this.updateStatus();
+  }
+
+  private listen(socket: WebSocket, source: string) {
+    socket.binaryType = 'arraybuffer';
+    const decoder = new TextDecoder();
+    let partial = '';
+    let partialTimer: ReturnType<typeof setTimeout> | undefined;
+
+    socket.addEventListener('message', ev => {
+      const text =
+        typeof ev.data === 'string'
+          ? ev.data
+          : decoder.decode(ev.data as ArrayBuffer, { stream: true });
+      const lines = (partial + text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, ''))
+        .replace(/\r\n?/g, '\n')
+        .split('\n');
+      partial = lines.pop()!;
+      this.receive(source, lines);
+
+      clearTimeout(partialTimer);
+      if (partial !== '') {
+        partialTimer = setTimeout(() => {
+          this.receive(source, [partial]);
+          partial = '';
+        }, PARTIAL_LINE_IDLE);
+      }
+    });
+    socket.addEventListener('close', () => {
+      clearTimeout(partialTimer);
+      this.sockets = this.sockets.filter(s => s !== socket);
+      this.updateStatus();
+    });
+  }
+
+  private receive(source: string, texts: string[]) {
+    if (texts.length === 0) {
+      return;
+    }
+    const time = new Date().toISOString();
+    this.stamper.push(texts.map(text => ({ source, time, text })));
+  }
+
+  // Stamped lines are also sent to the webview in batches
+  private onStamped(lines: TimelineLine[], virtualTime?: string) {
+    lines.forEach(line => (line.virtualTime = virtualTime));
+    this.lines.push(...lines);
+    this.lines.splice(0, this.lines.length - MAX_LINES);
+    this.post({ command: 'lines', lines });
+  }
+
+  private reset() {
+    this.post({
+      command: 'reset',
+      sources: this.sources,
+      lines: this.lines,
+    });
+  }
+
+  private updateStatus() {
+    const text =
+      this.sockets.length === 0
+        ? 'Disconnected, open the timeline again to reconnect'
+        : `Connected to ${this.sockets.length} UART${this.sockets.length === 1 ? '' : 's'}`;
+    this.post({ command: 'status', text });
+  }
+
+  private post(message: any) {
+    if (!this.disposed) {
+      this.panel.webview.postMessage(message);
+    }
+  }
+
+  private closeSockets() {
+    const sockets = this.sockets;
+    this.sockets = [];
+    sockets.forEach(socket => socket.close());
+  }
+
+  private async onMessage(message: any) {
+    switch (message.command) {
+      case 'ready':
+        this.reset();
+        this.updateStatus();
+        break;
+      case 'clear':
+        this.lines = [];
+        break;
+      case 'export':
+        await this.export(message.lines);
+        break;
+      default:
+        vscode.window.showErrorMessage(
+          `Received unknown command: ${message.command}`,
+        );
+        break;
+    }
+  }
+
+  private async export(lines: string[]) {
+    const uri = await vscode.window.showSaveDialog({
+      title: 'Export UART timeline',
+      defaultUri: vscode.workspace.workspaceFolders?.[0]
+        ? vscode.Uri.joinPath(
+            vscode.workspace.workspaceFolders[0].uri,
+            'uart-timeline.log',
+          )
+        : undefined,
+      filters: { Logs: ['log', 'txt'] },
+    });
+    if (uri === undefined) {
+      return;
+    }
+
+    try {
+      await vscode.workspace.fs.writeFile(
+        uri,
+        new TextEncoder().encode(`${lines.join('\n')}\n`),
+      );
+    } catch (err) {
+      vscode.window.showErrorMessage(`Failed to export the timeline: ${err}`);
+    }
+  }
+
+  private getHtmlForWebview(): string {
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Renode UART Timeline</title>
+      <style>${this.webviewStyles}</style>
+      <script>${this.webviewScript}</script>
+    </head>
+    <body>
+      <div class="toolbar">
+        <span id="sources"></span>
+        <input type="text" id="search" placeholder="Search" oninput="render()" />
+        <button onclick="clearLines()">Clear</button>
+        <button onclick="exportLines()">Export</button>
+        <span id="status"></span>
+      </div>
+      <table><tbody id="lines"></tbody></table>
+    </body>
+    </html>`;
+  }
+}
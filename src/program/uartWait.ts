@@ -0,0 +1,329 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import { RenodePluginContext } from '../context';
+import { RenodeSession } from '../session';
+import { getRenodePseudoterminal } from '../console';
+import { openNamedUartTerminal } from './gdb';
+import { parseVirtualTime, queryVirtualTime } from './virtualTime';
+
+export const UART_WAIT_TASK_TYPE = 'renode-wait';
+
+// How often virtual time is checked for `virtualTimeout`
+const VIRTUAL_TIME_POLL_INTERVAL = 200;
+// Output kept for matching, so that patterns can span lines
+const MAX_BUFFERED_OUTPUT = 64 * 1024;
+
+export interface UartWaitOptions {
+  // Can be omitted if there is only one machine
+  machine?: string;
+  uart: string;
+  // Regular expression, matched against all the output received so far
+  pattern: string;
+  // Wall-clock time in milliseconds
+  timeout?: number;
+  // Virtual time in seconds, counted from the start of waiting
+  virtualTimeout?: number;
+}
+
+export interface UartWaitResult {
+  matched: boolean;
+  // The match and its groups, if `matched`
+  match?: string[];
+  // Why nothing matched: `timeout`, `virtualTimeout`, `closed` or `cancelled`
+  reason?: string;
+  // Output received while waiting
+  output: string;
+}
+
+// Definition of a `renode-wait` task in `tasks.json`
+interface UartWaitTaskDefinition
+  extends vscode.TaskDefinition,
+    UartWaitOptions {}
+
+export function registerUartWait(
+  subscriptions: any[],
+  pluginCtx: RenodePluginContext,
+) {
+  const waitCommand = vscode.commands.registerCommand(
+    'renode.waitForUartOutput',
+    (options?: UartWaitOptions) =>
+      waitForUartOutputCommandHandler(pluginCtx, options),
+  );
+  subscriptions.push(waitCommand);
+
+  const taskProvider = vscode.tasks.registerTaskProvider(UART_WAIT_TASK_TYPE, {
+    // Tasks are only defined in `tasks.json`, as there is nothing to wait for by default
+    provideTasks: () => [],
+    resolveTask: task =>
+      new vscode.Task(
+        task.definition,
+        task.scope ?? vscode.TaskScope.Workspace,
+        task.name,
+        'renode',
+        new vscode.CustomExecution(
+          async definition =>
+            new UartWaitTaskTerminal(
+              pluginCtx,
+              definition as UartWaitTaskDefinition,
+            ),
+        ),
+      ),
+  });
+  subscriptions.push(taskProvider);
+}
+
+// Resolves to the result when called with options, e.g. by other extensions,
+// and reports it to the user otherwise
+async function waitForUartOutputCommandHandler(
+  pluginCtx: RenodePluginContext,
+  options?: UartWaitOptions,
+): Promise<UartWaitResult | undefined> {
+  if (options !== undefined) {
+    return waitForUartOutput(pluginCtx.activeSession, options);
+  }
+
+  try {
+    const picked = await pickUartWaitOptions(pluginCtx);
+    if (picked === undefined) {
+      return undefined;
+    }
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Waiting for /${picked.pattern}/ on ${picked.uart} (${picked.machine})`,
+        cancellable: true,
+      },
+      (_progress, token) =>
+        waitForUartOutput(pluginCtx.activeSession, picked, token),
+    );
+    if (result.matched) {
+      vscode.window.showInformationMessage(`Matched: ${result.match![0]}`);
+    } else if (result.reason !== 'cancelled') {
+      vscode.window.showErrorMessage(
+        `No output matched /${picked.pattern}/ (${result.reason})`,
+      );
+    }
+    return result;
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to wait for UART output: ${err}`);
+    return undefined;
+  }
+}
+
+// Watches the terminal of a UART, opening one if needed, until its output matches
+export async function waitForUartOutput(
+  session: RenodeSession,
+  options: UartWaitOptions,
+  token?: vscode.CancellationToken,
+  onData?: (data: string) => void,
+): Promise<UartWaitResult> {
+  const pattern = new RegExp(options.pattern, 'm');
+  if (!session.emulationActive) {
+    throw new Error('the simulation is not running');
+  }
+
+  const machines = await session.getMachines();
+  const machine =
+    options.machine ?? (machines.length === 1 ? machines[0] : undefined);
+  if (machine === undefined) {
+    throw new Error(`multiple machine options for UART '${options.uart}'`);
+  }
+  const terminal =
+    findUartTerminal(machine, options.uart) ??
+    (await openNamedUartTerminal(session, { machine, name: options.uart }));
+  const pty = getRenodePseudoterminal(terminal)!;
+
+  return new Promise<UartWaitResult>(resolve => {
+    const disposables: vscode.Disposable[] = [];
+    let output = '';
+    let done = false;
+    const finish = (result: Omit<UartWaitResult, 'output'>) => {
+      if (!done) {
+        done = true;
+        disposables.forEach(d => d.dispose());
+        resolve({ ...result, output });
+      }
+    };
+
+    disposables.push(
+      pty.onDidReceiveData(data => {
+        onData?.(data);
+        output = (output + data.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, ''))
+          .replace(/\r\n?/g, '\n')
+          .slice(-MAX_BUFFERED_OUTPUT);
+        const match = output.match(pattern);
+        if (match !== null) {
+          finish({ matched: true, match: [...match] });
+        }
+      }),
+      vscode.window.onDidCloseTerminal(closed => {
+        if (closed === terminal) {
+          finish({ matched: false, reason: 'closed' });
+        }
+      }),
+    );
+    if (token !== undefined) {
+      disposables.push(
+        token.onCancellationRequested(() =>
+          finish({ matched: false, reason: 'cancelled' }),
+        ),
+      );
+    }
+    if (options.timeout !== undefined) {
+      const timer = setTimeout(
+        () => finish({ matched: false, reason: 'timeout' }),
+        options.timeout,
+      );
+      disposables.push({ dispose: () => clearTimeout(timer) });
+    }
+    if (options.virtualTimeout !== undefined) {
+      const stop = watchVirtualTime(session, options.virtualTimeout, () =>
+        finish({ matched: false, reason: 'virtualTimeout' }),
+      );
+      disposables.push({ dispose: stop });
+    }
+  });
+}
+
+// Runs `waitForUartOutput` as a task, showing the output it waits on
+class UartWaitTaskTerminal implements vscode.Pseudoterminal {
+  private writeEmitter = new vscode.EventEmitter<string>();
+  private closeEmitter = new vscode.EventEmitter<number>();
+  private cancellation = new vscode.CancellationTokenSource();
+  onDidWrite = this.writeEmitter.event;
+  onDidClose = this.closeEmitter.event;
+
+  constructor(
+    private pluginCtx: RenodePluginContext,
+    private definition: UartWaitTaskDefinition,
+  ) {}
+
+  async open() {
+    const { uart, machine, pattern } = this.definition;
+    this.writeEmitter.fire(
+      `\x1b[33mWaiting for /${pattern}/ on ${machine ? `${uart} (${machine})` : uart}\x1b[0m\r\n`,
+    );
+
+    let code = 1;
+    try {
+      const result = await waitForUartOutput(
+        this.pluginCtx.activeSession,
+        this.definition,
+        this.cancellation.token,
+        data => this.writeEmitter.fire(data),
+      );
+      if (result.matched) {
+        this.writeEmitter.fire(
+          `\r\n\x1b[32mMatched: ${result.match![0]}\x1b[0m\r\n`,
+        );
+        code = 0;
+      } else {
+        this.writeEmitter.fire(
+          `\r\n\x1b[31mNo output matched (${result.reason})\x1b[0m\r\n`,
+        );
+      }
+    } catch (err) {
+      this.writeEmitter.fire(`\x1b[31mFailed: ${err}\x1b[0m\r\n`);
+    }
+    this.closeEmitter.fire(code);
+  }
+
+  close() {
+    this.cancellation.cancel();
+    this.cancellation.dispose();
+  }
+}
+
+// *** Utilities ***
+
+async function pickUartWaitOptions(
+  pluginCtx: RenodePluginContext,
+): Promise<(UartWaitOptions & { machine: string }) | undefined> {
+  const machines = await pluginCtx.getMachines();
+  const uarts = (
+    await Promise.all(
+      machines.map(async machine =>
+        (await pluginCtx.getUarts(machine)).map(uart => ({
+          label: uart,
+          description: machine,
+          machine,
+        })),
+      ),
+    )
+  ).flat();
+  if (uarts.length === 0) {
+    throw new Error('there are no UARTs');
+  }
+
+  const picked =
+    uarts.length === 1
+      ? uarts[0]
+      : await vscode.window.showQuickPick(uarts, {
+          title: 'UART to wait for output on',
+        });
+  if (picked === undefined) {
+    return undefined;
+  }
+  const pattern = await vscode.window.showInputBox({
+    title: `Output to wait for on ${picked.label} (${picked.machine})`,
+    prompt: 'Regular expression',
+    validateInput: value => {
+      try {
+        new RegExp(value);
+        return undefined;
+      } catch (err) {
+        return `${err}`;
+      }
+    },
+  });
+  if (!pattern) {
+    return undefined;
+  }
+  return { machine: picked.machine, uart: picked.label, pattern };
+}
+
+// Connected terminal of the UART opened before, which keeps its history
+function findUartTerminal(
+  machine: string,
+  uart: string,
+): vscode.Terminal | undefined {
+  return vscode.window.terminals.find(terminal => {
+    const pty = getRenodePseudoterminal(terminal);
+    return pty?.connected && pty.name === `${uart} (${machine})`;
+  });
+}
+
+// Calls `onElapsed` once the given virtual time passes, returns a function stopping the watch
+function watchVirtualTime(
+  session: RenodeSession,
+  seconds: number,
+  onElapsed: () => void,
+): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async (start?: number) => {
+    // Retried if unknown, e.g. while the simulation is being reset
+    const virtualTime = await queryVirtualTime(session);
+    const now =
+      virtualTime !== undefined ? parseVirtualTime(virtualTime) : undefined;
+    start ??= now;
+    if (stopped) {
+      return;
+    }
+    if (now !== undefined && start !== undefined && now - start >= seconds) {
+      onElapsed();
+      return;
+    }
+    timer = setTimeout(() => poll(start), VIRTUAL_TIME_POLL_INTERVAL);
+  };
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
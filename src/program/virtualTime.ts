@@ -0,0 +1,78 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { RenodeSession } from '../session';
+
+// Elapsed virtual time as printed by Renode, e.g. `00:00:01.500000`,
+// or undefined if the simulation is not running
+export async function queryVirtualTime(
+  session: RenodeSession,
+): Promise<string | undefined> {
+  if (!session.emulationActive) {
+    return undefined;
+  }
+  try {
+    const [output] = await session.execMonitor([
+      'emulation MasterTimeSource ElapsedVirtualTime',
+    ]);
+    return output?.trim().match(/^\d[\d:.]*/)?.[0];
+  } catch {
+    // E.g. while the simulation is being reset
+    return undefined;
+  }
+}
+
+// Parses a time interval printed by Renode, e.g. `00:00:01.500000` or `1.02:03:04.5`, into seconds
+export function parseVirtualTime(text: string): number | undefined {
+  const match = text.trim().match(/^(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (match === null) {
+    return undefined;
+  }
+  const [, days, hours, minutes, seconds] = match;
+  return (
+    Number(days ?? 0) * 86400 +
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds)
+  );
+}
+
+// Stamps UART output with the virtual time. Renode does not tell when the output was sent,
+// so the time is queried once it arrives, once for all the items received in the meantime,
+// so that a chatty UART does not flood the monitor. Items are only as accurate as that.
+export class VirtualTimeStamper<T> {
+  private pending: T[] = [];
+  private querying = false;
+
+  constructor(
+    public session: RenodeSession,
+    private onStamped: (items: T[], virtualTime?: string) => void,
+  ) {}
+
+  push(items: T[]) {
+    this.pending.push(...items);
+    this.stamp();
+  }
+
+  // Items waiting for the query to complete, which are not stamped anymore
+  takePending(): T[] {
+    return this.pending.splice(0);
+  }
+
+  private async stamp() {
+    if (this.querying) {
+      return;
+    }
+
+    this.querying = true;
+    const virtualTime = await queryVirtualTime(this.session);
+    this.querying = false;
+
+    // Including the items received while querying
+    const items = this.pending.splice(0);
+    if (items.length > 0) {
+      this.onStamped(items, virtualTime);
+    }
+  }
+}
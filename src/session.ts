@@ -0,0 +1,832 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import {
+  RenodeProxySession,
+  Sensor,
+  SensorType,
+  SensorValue,
+  UartOpenedArgs,
+} from 'renode-ws-api';
+import WebSocket from 'isomorphic-ws';
+import {
+  RenodeWebSocketPseudoTerminal,
+  createRenodeWebSocketTerminal,
+  getRenodePseudoterminal,
+  terminalsKeptOpen,
+} from './console';
+import { delay, tryConnectWs } from './utils';
+import {
+  RenodeProfile,
+  getProfileToken,
+  withToken,
+  withoutToken,
+} from './profiles';
+
+// NOTE: initial port is reserved for Renode logs, successive ports are used for UARTs
+export const INITIAL_PORT = 29170;
+
+const RECONNECT_BASE_DELAY = 1000;
+// Terminals that lost their connection this long before the session did are not restored
+const LOST_TERMINAL_GRACE = 5000;
+// Number of ports after `INITIAL_PORT` that UART sockets are created on
+const UART_PORT_RANGE = 64;
+// Ports tried before giving up on creating a UART socket
+const UART_PORT_ATTEMPTS = 8;
+
+interface TrackedTerminal {
+  terminal: vscode.Terminal;
+  reopen: () => Promise<vscode.Terminal>;
+  // Set when the terminal was closed because its connection dropped
+  lostAt?: number;
+  // Server socket terminal in Renode the terminal is connected to, if it was created for it
+  uartPort?: number;
+}
+
+// Terminal which stays open after losing its connection, see `terminalsKeptOpen`
+interface PersistentTerminal {
+  terminal: vscode.Terminal;
+  pty: RenodeWebSocketPseudoTerminal;
+  port: number;
+  // Set for UART terminals, which need a new socket to reconnect
+  uart?: { machine: string; uart: string; socket?: UartSocket };
+  reconnecting?: boolean;
+}
+
+// Server socket terminal created in Renode to connect to a UART, named `sst-<port>`
+interface UartSocket {
+  machine: string;
+  uart: string;
+}
+
+export enum RenodeState {
+  DISCONNECTED = 'disconnected',
+  CONNECTING = 'connecting',
+  CONNECTED = 'connected',
+  // Renode was started, but nothing is known about the simulation yet
+  EMULATION_STARTED = 'emulationStarted',
+  RUNNING = 'running',
+  PAUSED = 'paused',
+  // The simulation was stopped, the session is still connected
+  STOPPED = 'stopped',
+}
+
+export interface RenodeStateChangeEvent {
+  session: RenodeSession;
+  previous: RenodeState;
+  state: RenodeState;
+}
+
+// A single named connection to a Renode server.
+// `RenodePluginContext` manages several of these, one of them being the active one.
+export class RenodeSession {
+  public reconnectAttempt?: number;
+  public onPreDisconnect: vscode.Event<RenodeSession>;
+  public onUartOpened: vscode.Event<UartOpenedArgs>;
+  public onDidChangeState: vscode.Event<RenodeStateChangeEvent>;
+  // Fired on state transitions and on other changes worth redrawing the UI for, e.g. reconnect attempts
+  public onDidChange: vscode.Event<RenodeSession>;
+
+  private proxy?: RenodeProxySession;
+  private _state = RenodeState.DISCONNECTED;
+  private preDisconnectEmitter: vscode.EventEmitter<RenodeSession>;
+  private uartOpenedEmitter: vscode.EventEmitter<UartOpenedArgs>;
+  private stateEmitter: vscode.EventEmitter<RenodeStateChangeEvent>;
+  private changeEmitter: vscode.EventEmitter<RenodeSession>;
+
+  // UART sockets in use by this session, by port
+  private uartSockets = new Map<number, UartSocket>();
+  // Ports Renode failed to create a socket on, e.g. because another tool uses them
+  private unavailablePorts = new Set<number>();
+  // Ports taken by sockets still being created, so that parallel calls pick different ones
+  private pendingPorts = new Set<number>();
+  private terminals: TrackedTerminal[] = [];
+  private persistentTerminals: PersistentTerminal[] = [];
+  private disposables: vscode.Disposable[] = [];
+  // Token the session connected with, kept out of `sessionBase`
+  private token?: string;
+
+  constructor(
+    // Changes to the profile take effect on the next connection
+    public profile: RenodeProfile,
+    private secrets: vscode.SecretStorage,
+  ) {
+    this.preDisconnectEmitter = new vscode.EventEmitter<RenodeSession>();
+    this.uartOpenedEmitter = new vscode.EventEmitter<UartOpenedArgs>();
+    this.stateEmitter = new vscode.EventEmitter<RenodeStateChangeEvent>();
+    this.changeEmitter = new vscode.EventEmitter<RenodeSession>();
+    this.onPreDisconnect = this.preDisconnectEmitter.event;
+    this.onUartOpened = this.uartOpenedEmitter.event;
+    this.onDidChangeState = this.stateEmitter.event;
+    this.onDidChange = this.changeEmitter.event;
+
+    vscode.window.onDidCloseTerminal(
+      this.onTerminalClosed,
+      this,
+      this.disposables,
+    );
+    this.onDidChangeState(
+      this.reconnectPersistentTerminals,
+      this,
+      this.disposables,
+    );
+  }
+
+  get name(): string {
+    return this.profile.name;
+  }
+
+  get uri(): string {
+    return this.profile.uri;
+  }
+
+  // Whether Renode runs on this machine, so that it can access local files directly
+  get isLocal(): boolean {
+    const host = new URL(this.uri).hostname;
+    return ['localhost', '127.0.0.1', '[::1]'].includes(host);
+  }
+
+  get sessionBase(): string | undefined {
+    const base = this.proxy?.sessionBase;
+    return base && withoutToken(base);
+  }
+
+  // Adds the token to a URI of the server, to open a connection with
+  withToken(uri: string): string {
+    return withToken(uri, this.token);
+  }
+
+  get socketReady(): boolean {
+    return this.proxy?.socketReady ?? false;
+  }
+
+  get reconnecting(): boolean {
+    return this.reconnectAttempt !== undefined;
+  }
+
+  get state(): RenodeState {
+    return this._state;
+  }
+
+  // True when a simulation was started in this session and was not stopped yet
+  get emulationActive(): boolean {
+    return [
+      RenodeState.EMULATION_STARTED,
+      RenodeState.RUNNING,
+      RenodeState.PAUSED,
+    ].includes(this._state);
+  }
+
+  async connect() {
+    this.disconnect();
+    this.setState(RenodeState.CONNECTING);
+
+    // Connect with retry
+    for (let i = 0; i < this.profile.connectRetries; i++) {
+      const proxy = await this.tryConnect();
+      if (proxy !== undefined) {
+        this.attach(proxy);
+        break;
+      }
+      await delay(this.profile.retryDelay);
+    }
+
+    this.setState(
+      this.socketReady ? RenodeState.CONNECTED : RenodeState.DISCONNECTED,
+    );
+  }
+
+  disconnect() {
+    if (this.proxy === undefined && !this.reconnecting) {
+      return;
+    }
+
+    // Cancels the reconnect loop, if there is one running
+    this.reconnectAttempt = undefined;
+    this.preDisconnectEmitter.fire(this);
+    this.terminals = [];
+    this.proxy?.dispose();
+    this.proxy = undefined;
+    this.setState(RenodeState.DISCONNECTED);
+  }
+
+  async startRenode() {
+    const proxy = await this.connectGuard();
+
+    await proxy.startRenode();
+
+    this.setState(RenodeState.EMULATION_STARTED);
+  }
+
+  // Reports whether the simulation is running, e.g. after it was paused by a debugger
+  setEmulationState(state: RenodeState.RUNNING | RenodeState.PAUSED) {
+    if (this.emulationActive) {
+      this.setState(state);
+    }
+  }
+
+  // Returns the output of each command, in order.
+  // Rejects if Renode fails to execute any of them.
+  async execMonitor(commands: string[]): Promise<string[]> {
+    const proxy = await this.connectGuard();
+
+    const output = await proxy.execMonitor(commands);
+    return Array.isArray(output) ? output.map(String) : [];
+  }
+
+  async getUarts(machine: string): Promise<string[]> {
+    const proxy = await this.connectGuard();
+
+    return proxy.getUarts(machine);
+  }
+
+  async getMachines(): Promise<string[]> {
+    const proxy = await this.connectGuard();
+
+    return proxy.getMachines();
+  }
+
+  async getSensors(machine: string): Promise<Sensor[]> {
+    const proxy = await this.connectGuard();
+
+    return proxy.getSensors(machine);
+  }
+
+  async getSensorValue(sensor: Sensor, type: SensorType): Promise<SensorValue> {
+    const proxy = await this.connectGuard();
+
+    return proxy.getSensorValue(sensor, type);
+  }
+
+  async setSensorValue(
+    sensor: Sensor,
+    type: SensorType,
+    value: SensorValue,
+  ): Promise<void> {
+    const proxy = await this.connectGuard();
+
+    return proxy.setSensorValue(sensor, type, value);
+  }
+
+  async stopRenode() {
+    // Stopping renode does not require a connection to a session.
+    // If we're not connected that means we have lost the connection,
+    // e.g. during debugging, so just return immediately.
+    try {
+      await this.proxy?.stopRenode();
+    } catch {}
+
+    if (this.socketReady) {
+      this.setState(RenodeState.STOPPED);
+    }
+  }
+
+  async downloadZipToFs(zipUrl: string) {
+    const proxy = await this.connectGuard();
+
+    proxy.fetchZipToFs(zipUrl);
+  }
+
+  async downloadFile(path: string): Promise<Uint8Array> {
+    const proxy = await this.connectGuard();
+
+    return proxy.downloadFile(path);
+  }
+
+  async sendFileFromContent(path: string, content: Uint8Array): Promise<any> {
+    const proxy = await this.connectGuard();
+
+    return proxy.sendFile(path, content);
+  }
+
+  async sendFileFromPath(path: string): Promise<any> {
+    const uri = vscode.Uri.parse(path);
+    const data = await vscode.workspace.fs.readFile(uri);
+
+    return this.sendFileFromContent(uri.path, data);
+  }
+
+  async createDirectory(path: string): Promise<void> {
+    const proxy = await this.connectGuard();
+
+    return proxy.createDirectory(path);
+  }
+
+  async removeFile(path: string): Promise<any> {
+    const proxy = await this.connectGuard();
+
+    return proxy.removeFile(path);
+  }
+
+  async moveFile(from: string, to: string): Promise<any> {
+    const proxy = await this.connectGuard();
+
+    return proxy.moveFile(from, to);
+  }
+
+  async copyFile(from: string, to: string): Promise<any> {
+    const proxy = await this.connectGuard();
+
+    return proxy.copyFile(from, to);
+  }
+
+  async listFiles(path: string): Promise<any[]> {
+    const proxy = await this.connectGuard();
+
+    return proxy.listFiles(path);
+  }
+
+  async statFile(path: string): Promise<any> {
+    const proxy = await this.connectGuard();
+
+    return proxy.statFile(path);
+  }
+
+  createTerminal(
+    name: string,
+    port: number,
+    readonly?: boolean,
+  ): vscode.Terminal {
+    if (terminalsKeptOpen()) {
+      const existing = this.persistentTerminals.find(
+        p => p.uart === undefined && p.port === port && !p.pty.connected,
+      );
+      if (existing !== undefined) {
+        existing.pty.reconnect(this.telnetAddress(port), this.token);
+        existing.terminal.show(false);
+        return existing.terminal;
+      }
+      return this.openPersistentTerminal(name, port, readonly);
+    }
+
+    return this.openTerminal(name, port, readonly, async () =>
+      this.createTerminal(name, port, readonly),
+    );
+  }
+
+  async createUARTTerminal(
+    machine: string,
+    uart: string,
+  ): Promise<vscode.Terminal> {
+    if (terminalsKeptOpen()) {
+      // A relaunch reuses the terminal left from the previous simulation
+      const existing = this.persistentTerminals.find(
+        p =>
+          p.uart?.machine === machine &&
+          p.uart.uart === uart &&
+          !p.pty.connected,
+      );
+      if (existing !== undefined) {
+        await this.reconnectUartTerminal(existing);
+        existing.terminal.show(false);
+        return existing.terminal;
+      }
+
+      const port = await this.createUartSocket(machine, uart);
+      return this.openPersistentTerminal(`${uart} (${machine})`, port, false, {
+        machine,
+        uart,
+        socket: this.uartSockets.get(port),
+      });
+    }
+
+    const port = await this.createUartSocket(machine, uart);
+    // UARTs need a new server socket terminal in Renode after reconnecting
+    return this.openTerminal(
+      `${uart} (${machine})`,
+      port,
+      false,
+      () => this.createUARTTerminal(machine, uart),
+      port,
+    );
+  }
+
+  // Raw connection to a UART, for reading its output without a terminal
+  async connectUart(machine: string, uart: string): Promise<WebSocket> {
+    const port = await this.createUartSocket(machine, uart);
+    let socket: WebSocket;
+    try {
+      socket = await this.connectPort(port);
+    } catch (e) {
+      await this.removeUartSocket(port);
+      throw e;
+    }
+    socket.addEventListener('close', () => this.removeUartSocket(port));
+    return socket;
+  }
+
+  // Lists UART sockets left in Renode without anything connected to them,
+  // e.g. by terminals of an earlier editor session
+  async findOrphanedUartSockets(): Promise<number[]> {
+    const orphaned = [];
+    for (
+      let port = INITIAL_PORT + 1;
+      port <= INITIAL_PORT + UART_PORT_RANGE;
+      port++
+    ) {
+      if (this.uartSockets.has(port) || this.pendingPorts.has(port)) {
+        continue;
+      }
+      // Renode fails to find objects which do not exist
+      const exists = await this.execMonitor([`sst-${port}`]).then(
+        () => true,
+        () => false,
+      );
+      if (exists) {
+        orphaned.push(port);
+      }
+    }
+    return orphaned;
+  }
+
+  // Detaches the UART socket on the given port and removes it from Renode
+  async removeUartSocket(port: number) {
+    const socket = this.uartSockets.get(port);
+    this.uartSockets.delete(port);
+    this.unavailablePorts.delete(port);
+    if (!this.emulationActive) {
+      // Sockets are gone along with the simulation
+      return;
+    }
+
+    const name = `sst-${port}`;
+    const detach = socket
+      ? [
+          `mach set ${JSON.stringify(socket.machine)}`,
+          `connector Disconnect ${socket.uart} ${name}`,
+        ]
+      : [];
+    try {
+      await this.execMonitor([
+        ...detach,
+        `${name} Dispose`,
+        `emulation ExternalsManager RemoveExternal ${name}`,
+      ]);
+    } catch (e) {
+      console.error(`Could not remove ${name}:`, e);
+    }
+  }
+
+  // Raw connection to the Renode log
+  async connectLogs(): Promise<WebSocket> {
+    return this.connectPort(INITIAL_PORT);
+  }
+
+  dispose() {
+    this.disconnect();
+    this.persistentTerminals.forEach(p => p.terminal.dispose());
+    this.disposables.forEach(disposable => disposable.dispose());
+
+    this.preDisconnectEmitter.dispose();
+    this.uartOpenedEmitter.dispose();
+    this.stateEmitter.dispose();
+    this.changeEmitter.dispose();
+  }
+
+  // *** Event handlers ***
+
+  private onClose(proxy: RenodeProxySession) {
+    if (proxy !== this.proxy) {
+      // Closed on purpose, e.g. by `disconnect`
+      return;
+    }
+
+    this.proxy = undefined;
+
+    const cfg = vscode.workspace.getConfiguration('renode');
+    if (cfg.get<boolean>('autoReconnect')) {
+      this.reconnect();
+    } else {
+      this.terminals = [];
+      this.setState(RenodeState.DISCONNECTED);
+    }
+  }
+
+  private onTerminalClosed(terminal: vscode.Terminal) {
+    const persistent = this.persistentTerminals.findIndex(
+      p => p.terminal === terminal,
+    );
+    if (persistent !== -1) {
+      const [{ port, uart }] = this.persistentTerminals.splice(persistent, 1);
+      // The port might belong to another socket already, if the simulation was restarted
+      if (
+        uart?.socket !== undefined &&
+        this.uartSockets.get(port) === uart.socket
+      ) {
+        this.removeUartSocket(port);
+      }
+      return;
+    }
+
+    const idx = this.terminals.findIndex(t => t.terminal === terminal);
+    if (idx === -1) {
+      return;
+    }
+
+    // Reopening the terminal creates a new socket, so the old one is not needed in either case
+    const port = this.terminals[idx].uartPort;
+    if (port !== undefined) {
+      this.removeUartSocket(port);
+    }
+
+    if (terminal.exitStatus?.reason === vscode.TerminalExitReason.Process) {
+      // The connection dropped, keep it in case the session is reconnected
+      this.terminals[idx].lostAt = Date.now();
+    } else {
+      this.terminals.splice(idx, 1);
+    }
+  }
+
+  private async reconnectPersistentTerminals(event: RenodeStateChangeEvent) {
+    for (const persistent of this.persistentTerminals) {
+      if (persistent.pty.connected) {
+        continue;
+      }
+      if (persistent.uart === undefined) {
+        // Ports other than UART sockets are there as soon as Renode is
+        if (event.state === RenodeState.EMULATION_STARTED) {
+          persistent.pty.reconnect(
+            this.telnetAddress(persistent.port),
+            this.token,
+          );
+        }
+      } else if (
+        event.state === RenodeState.RUNNING ||
+        event.state === RenodeState.PAUSED
+      ) {
+        // Machines exist once the simulation was started or stopped in a debugger
+        try {
+          const uarts = await this.getUarts(persistent.uart.machine);
+          if (uarts.includes(persistent.uart.uart)) {
+            await this.reconnectUartTerminal(persistent);
+          }
+        } catch (e) {
+          console.error(`Could not reconnect ${persistent.terminal.name}:`, e);
+        }
+      }
+    }
+  }
+
+  private async reconnect() {
+    const cfg = vscode.workspace.getConfiguration('renode');
+    const maxAttempts = cfg.get<number>('reconnectMaxAttempts') ?? 10;
+    const maxDelay = cfg.get<number>('reconnectMaxDelay') ?? 30000;
+
+    // Terminals which were closed long before the connection dropped were not closed by it
+    const closedAt = Date.now();
+    const toRestore = this.terminals.filter(
+      t => t.lostAt === undefined || closedAt - t.lostAt < LOST_TERMINAL_GRACE,
+    );
+    this.terminals = toRestore;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.reconnectAttempt = attempt;
+      this.setState(RenodeState.CONNECTING);
+
+      await delay(
+        Math.min(RECONNECT_BASE_DELAY * 2 ** (attempt - 1), maxDelay),
+      );
+      if (!this.reconnecting) {
+        // Cancelled by `disconnect` or superseded by `connect`
+        return;
+      }
+
+      const proxy = await this.tryConnect();
+      if (!this.reconnecting) {
+        proxy?.dispose();
+        return;
+      }
+      if (proxy !== undefined) {
+        this.reconnectAttempt = undefined;
+        this.attach(proxy);
+        this.setState(RenodeState.CONNECTED);
+        await this.restoreTerminals(toRestore);
+        return;
+      }
+    }
+
+    this.reconnectAttempt = undefined;
+    this.terminals = [];
+    this.setState(RenodeState.DISCONNECTED);
+    vscode.window.showErrorMessage(
+      `Could not reconnect to Renode session '${this.name}'`,
+    );
+  }
+
+  private async restoreTerminals(terminals: TrackedTerminal[]) {
+    this.terminals = this.terminals.filter(t => !terminals.includes(t));
+
+    await Promise.all(
+      terminals.map(async tracked => {
+        if (tracked.terminal.exitStatus === undefined) {
+          // Still open, nothing to restore
+          this.terminals.push(tracked);
+          return;
+        }
+        try {
+          await tracked.reopen();
+        } catch (e) {
+          console.error(`Could not reopen ${tracked.terminal.name}:`, e);
+        }
+      }),
+    );
+  }
+
+  // *** Utilities ***
+
+  private setState(state: RenodeState) {
+    const previous = this._state;
+    this._state = state;
+    if (
+      state === RenodeState.EMULATION_STARTED ||
+      state === RenodeState.STOPPED ||
+      state === RenodeState.DISCONNECTED
+    ) {
+      // Sockets of the previous simulation do not exist anymore
+      this.uartSockets.clear();
+      this.unavailablePorts.clear();
+    }
+    if (previous !== state) {
+      this.stateEmitter.fire({ session: this, previous, state });
+    }
+    this.changeEmitter.fire(this);
+  }
+
+  private async tryConnect(): Promise<RenodeProxySession | undefined> {
+    const token = await getProfileToken(this.secrets, this.name);
+    this.token = token;
+    const attempt = RenodeProxySession.tryConnect(
+      withToken(this.profile.uri, token),
+      this.profile.workspace,
+    );
+
+    try {
+      const proxy = await Promise.race([
+        attempt,
+        delay(this.profile.connectTimeout).then(() => undefined),
+      ]);
+      if (proxy === undefined) {
+        // Timed out, make sure a late connection does not linger
+        attempt.then(
+          late => late.dispose(),
+          () => {},
+        );
+      }
+      return proxy;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private attach(proxy: RenodeProxySession) {
+    this.proxy = proxy;
+    proxy.addEventListener('close', () => this.onClose(proxy));
+    // Subscribers of `onUartOpened` keep their subscriptions across reconnects
+    proxy.registerUartOpenedCallback(args => this.uartOpenedEmitter.fire(args));
+  }
+
+  private async reconnectUartTerminal(persistent: PersistentTerminal) {
+    const { uart } = persistent;
+    if (uart === undefined || persistent.reconnecting) {
+      return;
+    }
+
+    persistent.reconnecting = true;
+    try {
+      const port = await this.createUartSocket(uart.machine, uart.uart);
+      persistent.port = port;
+      uart.socket = this.uartSockets.get(port);
+      // Not awaited, the connection only completes once the socket accepts it
+      persistent.pty.reconnect(this.telnetAddress(port), this.token);
+    } finally {
+      persistent.reconnecting = false;
+    }
+  }
+
+  private openPersistentTerminal(
+    name: string,
+    port: number,
+    readonly: boolean | undefined,
+    uart?: PersistentTerminal['uart'],
+  ): vscode.Terminal {
+    const terminal = createRenodeWebSocketTerminal(
+      name,
+      this.telnetAddress(port),
+      readonly,
+      true,
+      this.token,
+    );
+    const pty = getRenodePseudoterminal(terminal)!;
+    terminal.show(false);
+    this.persistentTerminals.push({ terminal, pty, port, uart });
+    return terminal;
+  }
+
+  private telnetAddress(port: number): string {
+    return `${this.sessionBase}/telnet/${port}`;
+  }
+
+  private openTerminal(
+    name: string,
+    port: number,
+    readonly: boolean | undefined,
+    reopen: () => Promise<vscode.Terminal>,
+    uartPort?: number,
+  ): vscode.Terminal {
+    const term = createRenodeWebSocketTerminal(
+      name,
+      this.telnetAddress(port),
+      readonly,
+      false,
+      this.token,
+    );
+    term.show(false);
+    let disposable = this.onPreDisconnect(() => {
+      term.dispose();
+      disposable.dispose();
+    });
+    // Forget terminals whose connection dropped while the session stayed up
+    const now = Date.now();
+    this.terminals = this.terminals.filter(
+      t => t.lostAt === undefined || now - t.lostAt < LOST_TERMINAL_GRACE,
+    );
+    this.terminals.push({ terminal: term, reopen, uartPort });
+    return term;
+  }
+
+  private async createUartSocket(
+    machine: string,
+    uart: string,
+  ): Promise<number> {
+    // TODO: add protocol support for ws endpoint creation with uart terminal
+    for (let attempt = 0; attempt < UART_PORT_ATTEMPTS; attempt++) {
+      const port = this.allocatePort();
+      const name = `sst-${port}`;
+      try {
+        await this.execMonitor([
+          `emulation CreateServerSocketTerminal ${port} "${name}"`,
+        ]);
+      } catch {
+        // The port or the name is taken, by another tool or a socket left from before
+        this.unavailablePorts.add(port);
+        continue;
+      } finally {
+        this.pendingPorts.delete(port);
+      }
+
+      this.uartSockets.set(port, { machine, uart });
+      try {
+        await this.execMonitor([
+          `mach set "${machine}"`,
+          `${name} AttachTo ${uart}`,
+        ]);
+      } catch (e) {
+        await this.removeUartSocket(port);
+        throw e;
+      }
+      return port;
+    }
+    throw new Error(`Could not find a free port for ${uart}`);
+  }
+
+  // Reserves the lowest port not used by this session, so that ports of closed terminals
+  // get reused. The caller releases it from `pendingPorts` once the socket is created or not.
+  private allocatePort(): number {
+    for (
+      let port = INITIAL_PORT + 1;
+      port <= INITIAL_PORT + UART_PORT_RANGE;
+      port++
+    ) {
+      if (
+        !this.uartSockets.has(port) &&
+        !this.unavailablePorts.has(port) &&
+        !this.pendingPorts.has(port)
+      ) {
+        this.pendingPorts.add(port);
+        return port;
+      }
+    }
+    throw new Error('All ports for UART sockets are in use');
+  }
+
+  private async connectPort(port: number): Promise<WebSocket> {
+    const socket = await tryConnectWs(this.withToken(this.telnetAddress(port)));
+    socket.binaryType = 'arraybuffer';
+    return socket;
+  }
+
+  // Execute this function to guard the function from being executed without a session connection
+  private async connectGuard(): Promise<RenodeProxySession> {
+    if (!this.socketReady) {
+      await this.connect();
+    }
+
+    if (!this.socketReady) {
+      throw new Error(`Could not connect to Renode Session '${this.name}'`);
+    }
+
+    return this.proxy!;
+  }
+}
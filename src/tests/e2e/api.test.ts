@@ -0,0 +1,40 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import vscode from 'vscode';
+import type { RenodeExtensionApi } from '../../webExtension';
+
+suite('Extension API Test Suite', function () {
+  let api: RenodeExtensionApi;
+
+  suiteSetup(async function () {
+    const extension = vscode.extensions.getExtension<RenodeExtensionApi>(
+      'antmicro.renode-extension',
+    );
+    assert.ok(extension);
+    api = await extension.activate();
+  });
+
+  test('Version', async function () {
+    assert.strictEqual(api.version, 1);
+  });
+
+  test('Default session', async function () {
+    assert.ok(api.sessions.includes('default'));
+    assert.strictEqual(api.activeSession, 'default');
+  });
+
+  test('Connecting to an unknown session', async function () {
+    await assert.rejects(api.connect('this-session-does-not-exist'));
+  });
+
+  test('Listing files', async function () {
+    await api.connect();
+    assert.ok(api.connected);
+
+    const files = await api.listFiles('/');
+    assert.ok(Array.isArray(files));
+  });
+});
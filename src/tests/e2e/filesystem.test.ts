@@ -6,6 +6,7 @@ import assert from 'assert';
 import vscode from 'vscode';
 import { Buffer } from 'buffer';
 import { RenodeProxySession } from 'renode-ws-api';
+import { globToRegExp } from '../../fs';
 
 // NOTE: For now, the tests share a single workspace.
 //       This means that when adding a new test you must
@@ -311,3 +312,43 @@ suite('FileSystem Test Suite', function () {
     assert.ok(result.ctime > 0);
   });
 });
+
+suite('File Watch Excludes Test Suite', function () {
+  function matches(glob: string, paths: string[]): boolean[] {
+    const pattern = globToRegExp(glob);
+    return paths.map(path => pattern.test(path));
+  }
+
+  test('Directories', function () {
+    assert.deepStrictEqual(
+      matches('**/node_modules', [
+        'node_modules',
+        'a/b/node_modules',
+        'node_modules_old',
+        'node_modules/a',
+      ]),
+      [true, true, false, false],
+    );
+    assert.deepStrictEqual(
+      matches('logs/**', ['logs/a', 'logs/a/b.log', 'logs', 'a/logs/b']),
+      [true, true, false, false],
+    );
+  });
+
+  test('File names', function () {
+    assert.deepStrictEqual(
+      matches('**/*.{log,tmp}', ['a.log', 'a/b.tmp', 'a.txt', 'a.log.txt']),
+      [true, true, false, false],
+    );
+    assert.deepStrictEqual(matches('*.txt', ['a.txt', 'a/b.txt', 'atxt']), [
+      true,
+      false,
+      false,
+    ]);
+    assert.deepStrictEqual(matches('?.c', ['a.c', 'ab.c', '/.c']), [
+      true,
+      false,
+      false,
+    ]);
+  });
+});
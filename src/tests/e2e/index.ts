@@ -16,6 +16,16 @@ export function run(): Promise<void> {
 
     // ALL E2E TESTS NEED TO BE LISTED HERE
     require('./filesystem.test');
+    require('./api.test');
+    require('./robotRunner.test');
+    require('./logStream.test');
+    require('./logLevels.test');
+    require('./machinesView.test');
+    require('./virtualTime.test');
+    require('./repl.test');
+    require('./runScript.test');
+    require('./resc.test');
+    require('./logDiagnostics.test');
 
     mocha.run(failures => {
       if (failures > 0) {
@@ -0,0 +1,56 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import { groupKey } from '../../program/logDiagnostics';
+
+suite('Log Diagnostics Test Suite', function () {
+  function key(source: string, message: string): string {
+    return groupKey({ level: 'WARNING', source, message, raw: message });
+  }
+
+  test('Reads', function () {
+    assert.strictEqual(
+      key(
+        'sysbus',
+        '[cpu: 0x8000abc] ReadDoubleWord from non existing peripheral at 0x40023800.',
+      ),
+      key(
+        'sysbus',
+        '[cpu: 0x8000123] ReadDoubleWord from non existing peripheral at 0x40023800.',
+      ),
+    );
+    assert.notStrictEqual(
+      key(
+        'sysbus',
+        'ReadDoubleWord from non existing peripheral at 0x40023800.',
+      ),
+      key(
+        'sysbus',
+        'ReadDoubleWord from non existing peripheral at 0x40023804.',
+      ),
+    );
+  });
+
+  test('Writes of different values', function () {
+    assert.strictEqual(
+      key(
+        'sysbus',
+        'WriteDoubleWord to non existing peripheral at 0x40023830, value 0x10000.',
+      ),
+      key(
+        'sysbus',
+        'WriteDoubleWord to non existing peripheral at 0x40023830, value 0x1.',
+      ),
+    );
+    assert.strictEqual(
+      key('sysbus.rcc', 'Unhandled write to offset 0x10, value 0x1.'),
+      key('sysbus.rcc', 'Unhandled write to offset 0x10, value 0x20.'),
+    );
+    assert.notStrictEqual(
+      key('sysbus.rcc', 'Unhandled write to offset 0x10, value 0x1.'),
+      key('sysbus.rcc', 'Unhandled write to offset 0x14, value 0x1.'),
+    );
+  });
+});
@@ -0,0 +1,42 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import { effectiveLogLevel, parseLogLevels } from '../../program/logLevels';
+
+suite('Log Level Parser Test Suite', function () {
+  const output = [
+    'Currently set levels:',
+    'Backend           | Emitter                    | Level',
+    '-------------------------------------------------------',
+    'console           |                            : INFO',
+    'console           | sysbus.uart0               : WARNING',
+    'file              | sysbus.uart0               : DEBUG',
+    'console           | machine-0.sysbus.cpu       : ERROR',
+  ].join('\n');
+
+  test('Default and emitter levels', function () {
+    const levels = parseLogLevels(output);
+    assert.strictEqual(levels.default, 'INFO');
+    // The most verbose level of all backends is used
+    assert.deepStrictEqual(levels.emitters, [
+      ['sysbus.uart0', 'DEBUG'],
+      ['machine-0.sysbus.cpu', 'ERROR'],
+    ]);
+  });
+
+  test('Effective levels', function () {
+    const levels = parseLogLevels(output);
+    assert.strictEqual(effectiveLogLevel(levels, 'sysbus.uart0'), 'DEBUG');
+    assert.strictEqual(effectiveLogLevel(levels, 'sysbus.cpu'), 'ERROR');
+    assert.strictEqual(effectiveLogLevel(levels, 'sysbus.uart1'), 'INFO');
+  });
+
+  test('Output without a table', function () {
+    assert.deepStrictEqual(parseLogLevels('There was an error'), {
+      default: undefined,
+      emitters: [],
+    });
+  });
+});
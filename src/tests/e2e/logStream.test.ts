@@ -0,0 +1,40 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import { parseLogLine } from '../../program/logStream';
+
+suite('Log Line Parser Test Suite', function () {
+  test('Entries of a machine', function () {
+    const line =
+      '12:04:31.6174 [INFO] stm32f4/sysbus.usart2: Hello (virt: 0.0123s)';
+    assert.deepStrictEqual(parseLogLine(line), {
+      time: '12:04:31.6174',
+      virtualTime: '0.0123s',
+      level: 'INFO',
+      machine: 'stm32f4',
+      source: 'sysbus.usart2',
+      message: 'Hello (virt: 0.0123s)',
+      raw: line,
+    });
+  });
+
+  test('Entries without time, machine or source', function () {
+    const entry = parseLogLine('[WARNING] sysbus: Unhandled read');
+    assert.strictEqual(entry?.time, undefined);
+    assert.strictEqual(entry?.level, 'WARNING');
+    assert.strictEqual(entry?.machine, undefined);
+    assert.strictEqual(entry?.source, 'sysbus');
+    assert.strictEqual(entry?.message, 'Unhandled read');
+
+    const plain = parseLogLine('10:00:00 [ERROR] Something failed');
+    assert.strictEqual(plain?.source, undefined);
+    assert.strictEqual(plain?.message, 'Something failed');
+  });
+
+  test('Lines continuing an entry', function () {
+    assert.strictEqual(parseLogLine('   at Renode.Main()'), undefined);
+    assert.strictEqual(parseLogLine(''), undefined);
+  });
+});
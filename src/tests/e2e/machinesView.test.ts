@@ -0,0 +1,40 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import { parsePeripherals } from '../../program/machinesView';
+
+suite('Peripherals Parser Test Suite', function () {
+  test('Peripheral tree', function () {
+    const output = [
+      'Available peripherals:',
+      '  sysbus (SystemBus)',
+      '  │',
+      '  ├── cpu (CortexM)',
+      '  │     Slot: 0',
+      '  ├── gpioPortA (STM32_GPIOPort)',
+      '  │   └── led (LED)',
+      '  └── uart0 (PL011)',
+    ].join('\n');
+
+    const [sysbus, ...rest] = parsePeripherals(output);
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(sysbus.type, 'SystemBus');
+    assert.deepStrictEqual(
+      sysbus.children.map(p => p.path),
+      ['sysbus.cpu', 'sysbus.gpioPortA', 'sysbus.uart0'],
+    );
+
+    const [cpu, gpio] = sysbus.children;
+    assert.strictEqual(cpu.children.length, 0);
+    assert.deepStrictEqual(
+      gpio.children.map(p => [p.path, p.type]),
+      [['sysbus.gpioPortA.led', 'LED']],
+    );
+  });
+
+  test('Output without peripherals', function () {
+    assert.deepStrictEqual(parsePeripherals('No machine selected.'), []);
+  });
+});
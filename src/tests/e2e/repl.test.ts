@@ -0,0 +1,61 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import vscode from 'vscode';
+import { findOverlaps } from '../../language/repl';
+
+suite('Platform Description Test Suite', function () {
+  async function overlaps(lines: string[]) {
+    const document = await vscode.workspace.openTextDocument({
+      content: lines.join('\n'),
+    });
+    return findOverlaps(document);
+  }
+
+  test('Overlapping registrations', async function () {
+    const diagnostics = await overlaps([
+      'memory: Memory.MappedMemory @ sysbus 0x0',
+      '    size: 0x1000',
+      '',
+      'uart0: UART.PL011 @ sysbus <0x800, +0x100>',
+      '',
+      'uart1: UART.PL011 @ sysbus <0x2000, 0x20FF>',
+      '',
+      'gpio: GPIOPort.STM32_GPIOPort @ {',
+      '    sysbus <0x20F0, +0x10>;',
+      '    sysbus <0x3000, +0x10>',
+      '}',
+    ]);
+
+    assert.deepStrictEqual(
+      diagnostics.map(d => [d.range.start.line, d.message]),
+      [
+        [
+          3,
+          "Address range <0x800, 0x8ff> overlaps with 'memory' at <0x0, 0xfff>",
+        ],
+        [
+          8,
+          "Address range <0x20f0, 0x20ff> overlaps with 'uart1' at <0x2000, 0x20ff>",
+        ],
+      ],
+    );
+  });
+
+  test('Registrations not checked', async function () {
+    const diagnostics = await overlaps([
+      // Sizes of peripherals are not known
+      'uart0: UART.PL011 @ sysbus 0x1000',
+      'uart1: UART.PL011 @ sysbus 0x1000',
+      // Only the system bus is checked
+      'gpio0: GPIOPort.X @ gpioPortA <0x0, +0x10>',
+      'gpio1: GPIOPort.X @ gpioPortA <0x0, +0x10>',
+      '/* mem: Memory.MappedMemory @ sysbus <0x1000, +0x10> */',
+      'flash: Memory.MappedMemory @ sysbus <0x1000, +0x10> // Adjacent',
+      'ram: Memory.MappedMemory @ sysbus <0x1010, +0x10>',
+    ]);
+    assert.deepStrictEqual(diagnostics, []);
+  });
+});
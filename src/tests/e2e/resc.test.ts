@@ -0,0 +1,33 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import { isKnownCommand } from '../../language/resc';
+
+suite('Renode Script Test Suite', function () {
+  const peripherals = ['sysbus', 'sysbus.uart0', 'sysbus.gpioPortA.led'];
+
+  test('Monitor commands and objects', function () {
+    assert.ok(isKnownCommand('mach', 'create', []));
+    // Aliases
+    assert.ok(isKnownCommand('s', undefined, []));
+    assert.ok(isKnownCommand('emulation', 'RunFor', []));
+    assert.ok(isKnownCommand('$bin', '=', []));
+  });
+
+  test('Peripherals', function () {
+    assert.ok(isKnownCommand('sysbus.uart0', 'WriteChar', []));
+    // Member accesses of peripherals unknown without a session
+    assert.ok(isKnownCommand('cpu', 'PC', []));
+    // Peripherals of the session, by their path or name
+    assert.ok(isKnownCommand('uart0', undefined, peripherals));
+    assert.ok(isKnownCommand('led', 'toggle', peripherals));
+  });
+
+  test('Unknown commands', function () {
+    assert.ok(!isKnownCommand('mahc', 'create', peripherals));
+    assert.ok(!isKnownCommand('strat', undefined, peripherals));
+    assert.ok(!isKnownCommand('uart1', undefined, peripherals));
+  });
+});
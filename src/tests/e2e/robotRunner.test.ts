@@ -0,0 +1,88 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import { parseRobot } from '../../program/robotRunner';
+
+suite('Robot Parser Test Suite', function () {
+  const text = [
+    '*** Settings ***',
+    'Resource          ${RENODEKEYWORDS}',
+    'Suite Setup       Setup',
+    'Test Teardown     Test Teardown',
+    '',
+    '*** Variables ***',
+    '${UART}           sysbus.uart0',
+    '',
+    '*** Keywords ***',
+    'Create Machine',
+    '    [Arguments]    ${name}    ${cpus}=1',
+    '    Execute Command    mach create ${name}',
+    '    [Return]    ${name}',
+    '',
+    '*** Test Cases ***',
+    'Should Boot',
+    '    [Setup]    Create Machine    board',
+    '    Create Terminal Tester    ${UART}',
+    '    ${line}=    Wait For Line On Uart    Hello',
+    '    ...    timeout=5',
+    '    # A comment',
+    '    Should Contain    ${line}    Hello    # Trailing comment',
+    'Empty Test    No Operation',
+  ].join('\n');
+
+  test('Settings and variables', function () {
+    const suite = parseRobot(text);
+    assert.ok(suite.usesRenode);
+    assert.strictEqual(suite.suiteSetup?.keyword, 'Setup');
+    assert.strictEqual(suite.testTeardown?.keyword, 'Test Teardown');
+    assert.strictEqual(suite.variables.get('UART'), 'sysbus.uart0');
+  });
+
+  test('Keywords', function () {
+    const keyword = parseRobot(text).keywords.get('createmachine');
+    assert.ok(keyword);
+    assert.deepStrictEqual(keyword.params, [
+      { name: 'name', default: undefined },
+      { name: 'cpus', default: '1' },
+    ]);
+    assert.deepStrictEqual(
+      keyword.steps.map(step => step.args),
+      [['mach create ${name}']],
+    );
+    assert.strictEqual(keyword.returns, '${name}');
+  });
+
+  test('Test cases', function () {
+    const [boot, empty] = parseRobot(text).tests;
+    assert.strictEqual(boot.name, 'Should Boot');
+    assert.strictEqual(boot.line, 15);
+    assert.deepStrictEqual(boot.setup?.args, ['board']);
+    assert.deepStrictEqual(
+      boot.steps.map(step => step.keyword),
+      ['Create Terminal Tester', 'Wait For Line On Uart', 'Should Contain'],
+    );
+
+    const wait = boot.steps[1];
+    assert.deepStrictEqual(wait.assign, ['line']);
+    // Continuations are joined with the row they continue
+    assert.deepStrictEqual(wait.args, ['Hello', 'timeout=5']);
+    assert.strictEqual(wait.line, 18);
+    assert.deepStrictEqual(boot.steps[2].args, ['${line}', 'Hello']);
+
+    // The first step can follow the name
+    assert.deepStrictEqual(
+      empty.steps.map(step => step.keyword),
+      ['No Operation'],
+    );
+  });
+
+  test('Suites without Renode keywords', function () {
+    const suite = parseRobot(
+      ['*** Test Cases ***', 'Other', '    Log    Hello'].join('\n'),
+    );
+    assert.strictEqual(suite.tests.length, 1);
+    assert.ok(!suite.usesRenode);
+  });
+});
@@ -0,0 +1,29 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import vscode from 'vscode';
+import { readTerminalsHeader } from '../../program/runScript';
+
+suite('Run Script Test Suite', function () {
+  test('Terminals header', async function () {
+    const document = await vscode.workspace.openTextDocument({
+      content: [
+        '# Boots the board',
+        '# terminals: uart0, usart2 (stm32f4)',
+        '',
+        '#terminals:uart1',
+        'mach create',
+        '# terminals: uart2',
+      ].join('\n'),
+    });
+
+    // Only comments at the top of the script are read
+    assert.deepStrictEqual(readTerminalsHeader(document), [
+      { name: 'uart0', machine: undefined },
+      { name: 'usart2', machine: 'stm32f4' },
+      { name: 'uart1', machine: undefined },
+    ]);
+  });
+});
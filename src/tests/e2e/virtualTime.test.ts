@@ -0,0 +1,21 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import assert from 'assert';
+import { parseVirtualTime } from '../../program/virtualTime';
+
+suite('Virtual Time Parser Test Suite', function () {
+  test('Times printed by Renode', function () {
+    assert.strictEqual(parseVirtualTime('00:00:01.500000'), 1.5);
+    assert.strictEqual(parseVirtualTime(' 01:02:03 '), 3723);
+    // With days
+    assert.strictEqual(parseVirtualTime('1.02:03:04.5'), 93784.5);
+  });
+
+  test('Other text', function () {
+    assert.strictEqual(parseVirtualTime(''), undefined);
+    assert.strictEqual(parseVirtualTime('1.5s'), undefined);
+    assert.strictEqual(parseVirtualTime('There is no machine'), undefined);
+  });
+});
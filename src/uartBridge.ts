@@ -0,0 +1,131 @@
+// Copyright (c) 2026 Antmicro <www.antmicro.com>
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import * as vscode from 'vscode';
+import * as net from 'net';
+import childprocess from 'child_process';
+import WebSocket from 'isomorphic-ws';
+import {
+  UartBridge,
+  UartBridgeKind,
+  UartBridgeProvider,
+} from './program/consoleCommand';
+
+// How long `socat` has to report the pseudo-terminal it created
+const PTY_START_TIMEOUT = 5000;
+
+// Exposes UARTs to tools running on the host, only possible in the desktop version
+export const hostUartBridges: UartBridgeProvider = {
+  kinds: process.platform === 'win32' ? ['tcp'] : ['tcp', 'pty'],
+
+  async create(uart, kind, port) {
+    const bridge = new TcpUartBridge(uart);
+    try {
+      await bridge.listen(kind === 'tcp' ? (port ?? 0) : 0);
+      if (kind === 'pty') {
+        await bridge.attachPty();
+      }
+    } catch (err) {
+      bridge.dispose();
+      throw err;
+    }
+    return bridge;
+  },
+};
+
+// Forwards data between a UART and the clients of a loopback TCP server.
+// Pseudo-terminals are made by `socat`, as one of the clients.
+class TcpUartBridge implements UartBridge {
+  public address = '';
+  public onDidClose: vscode.Event<void>;
+  private closeEmitter = new vscode.EventEmitter<void>();
+  private server = net.createServer(client => this.accept(client));
+  private clients = new Set<net.Socket>();
+  private socat?: childprocess.ChildProcess;
+  private closed = false;
+
+  constructor(private uart: WebSocket) {
+    this.onDidClose = this.closeEmitter.event;
+
+    uart.binaryType = 'arraybuffer';
+    uart.addEventListener('message', ev => {
+      const data =
+        typeof ev.data === 'string'
+          ? Buffer.from(ev.data)
+          : Buffer.from(ev.data as ArrayBuffer);
+      this.clients.forEach(client => client.write(data));
+    });
+    uart.addEventListener('close', () => this.dispose());
+  }
+
+  listen(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, '127.0.0.1', () => {
+        const { port } = this.server.address() as net.AddressInfo;
+        this.address = `127.0.0.1:${port}`;
+        resolve();
+      });
+    });
+  }
+
+  // With `-d -d`, socat reports e.g. `N PTY is /dev/pts/5`
+  attachPty(): Promise<void> {
+    const { port } = this.server.address() as net.AddressInfo;
+    const socat = childprocess.spawn('socat', [
+      '-d',
+      '-d',
+      'pty,raw,echo=0',
+      `tcp:127.0.0.1:${port}`,
+    ]);
+    this.socat = socat;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error('socat did not create a pseudo-terminal')),
+        PTY_START_TIMEOUT,
+      );
+      let stderr = '';
+      socat.stderr!.on('data', data => {
+        stderr += data.toString();
+        const pty = stderr.match(/PTY is (\S+)/)?.[1];
+        if (pty !== undefined) {
+          clearTimeout(timer);
+          this.address = pty;
+          resolve();
+        }
+      });
+      socat.on('error', err => {
+        clearTimeout(timer);
+        reject(new Error(`failed to run socat, is it installed? ${err}`));
+      });
+      socat.on('exit', () => {
+        clearTimeout(timer);
+        reject(new Error(`socat exited: ${stderr.trim()}`));
+        this.dispose();
+      });
+    });
+  }
+
+  dispose() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.socat?.kill();
+    this.clients.forEach(client => client.destroy());
+    this.server.close();
+    this.uart.close();
+    this.closeEmitter.fire();
+    this.closeEmitter.dispose();
+  }
+
+  private accept(client: net.Socket) {
+    this.clients.add(client);
+    client.on('data', data => this.uart.send(data));
+    client.on('close', () => this.clients.delete(client));
+    // Errors of a single client, e.g. a reset connection, only end that client
+    client.on('error', () => client.destroy());
+  }
+}
@@ -6,13 +6,22 @@ import * as vscode from 'vscode';
 import * as utils from './utils';
 import { LaunchRequestArguments, RenodeGdbDebugSession } from './program/gdb';
 import { activateExtension } from './extensionActivate';
+import { RenodeExtensionApi } from './api';
 
 // Entry point for the web version of the extension
-export function activate(context: vscode.ExtensionContext) {
-  activateExtension(context);
+export function activate(context: vscode.ExtensionContext): RenodeExtensionApi {
+  const api = activateExtension(context);
   // Any startup logic specific to the web plugin goes here
+  return api;
 }
 
 export function deactivate() {}
 
 export { LaunchRequestArguments as RenodeLaunchRequestArguments, utils };
+export type {
+  RenodeExtensionApi,
+  RenodeUartOpenedEvent,
+  RenodeDisconnectEvent,
+  RenodeSessionState,
+  RenodeStateChangeEvent,
+} from './api';